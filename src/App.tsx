@@ -3,80 +3,367 @@ import './index.css'
 import { produce } from 'immer'
 import { nanoid } from 'nanoid'
 import Photograph from './photograph/Photograph'
-import { FaCat, FaEraser, FaPenFancy } from 'react-icons/fa6'
+import { FaArrowPointer, FaArrowRightLong, FaArrowRotateLeft, FaArrowRotateRight, FaCat, FaClone, FaEraser, FaFileExport, FaFilm, FaFloppyDisk, FaFolderOpen, FaFont, FaImages, FaKeyboard, FaObjectGroup, FaPenFancy, FaRegCircle, FaRegSquare, FaSlash, FaTrash } from 'react-icons/fa6'
 import SharingModal from './sharing/SharingModal'
-import { createSnapshot, pointsToPath, type Point, type Action, useLocalState, type Brush, type CanvasPosition, exportAsPng, renderPath, renderActions, renderAction, kitty, kittySize } from './utils'
+import ReplayModal from './replay/ReplayModal'
+import KeymapModal from './keymap/KeymapModal'
+import { pointsToPath, type Point, type Action, useLocalState, getHistoryBounds, type Brush, parseBrush, type CanvasPosition, exportAsSvg, downloadBlob, renderPath, renderActions, renderAction, defaultColor, getPointerPressure, getActionBounds, type TextAction, type TextFont, type SnapshotAction, blobToDataUrl, getImageCacheKey, type ImageAction, usesImage, getImageSource, type ImageCacheAction, type StickerAction } from './utils'
 import type { IconType } from 'react-icons'
+import { getRoomIdFromPath, useRoom } from './rooms/room'
+import type { Presence, StrokeStyle } from './rooms/protocol'
+import { isJetchFile, jetchFilename, parseJetchFile, serializeJetchFile, stringifyJetchFile } from './jetchFile'
+import { framesKey, layersKey, positionKey, useDocuments, type Documents } from './documents/documents'
+import { loadStoredOperations, storeImages, storeOperations, useStoredHistory } from './documents/storage'
+import Gallery from './documents/Gallery'
+import ColorPicker, { addRecentColor } from './colors/ColorPicker'
+import BrushPicker from './brushes/BrushPicker'
+import { defaultBrushPreset, getBrushPreset } from './brushes/presets'
+import { constrainShapeEnd, isShapeKind, renderShape } from './shapes'
+import TextEditor from './text/TextEditor'
+import FontPicker from './text/FontPicker'
+import { applyOperation, canApplyOperation, invertOperation, replayOperations, type HistoryState, type Operation } from './history/operations'
+import { applyCheckpoint, planCheckpoint, type Checkpoint } from './history/checkpoints'
+import { createSnapshot, createThumbnail, exportAsPng, exportFlipbook } from './rendering/renderer'
+import LayersPanel from './layers/LayersPanel'
+import HistoryTimeline from './history/HistoryTimeline'
+import FramesPanel from './frames/FramesPanel'
+import { createLayer, defaultLayers, getLayerId, getVisibleActions, groupByLayer, isEditable, type Layer } from './layers/layers'
+import { findCommand, getBinding, getCommand, rebind, resolveKeymap, type Command, type KeymapOverrides } from './keymap/keymap'
+import { createFrame, defaultFps, defaultFrames, getFrameActions, getFrameId, type Frame } from './frames/frames'
+import { getOnionSkinLayerId, onionSkinColors, renderOnionSkin } from './frames/onionSkin'
+import { createTileCache } from './tiles/tiles'
+import { collectImages, isImageFile, prepareImage, registerImages } from './images/images'
+import StickerPicker from './stickers/StickerPicker'
+import { defaultStickerId, stickerSize } from './stickers/stickers'
+import {
+    cloneActions,
+    findActionAt,
+    findActionsAlong,
+    findActionsInLasso,
+    findHandleAt,
+    getSelectionBounds,
+    isSelectable,
+    renderHighlight,
+    renderLasso,
+    renderSelection,
+    transformAction,
+    transformBounds,
+    type Bounds,
+    type SelectionTransform,
+} from './selection/selection'
+
+function clampZoom(zoom: number): number {
+    return Math.max(Math.min(zoom, 15), 0.05)
+}
+
+type SelectionDrag =
+    | { kind: 'lasso', points: { x: number, y: number }[], start: { x: number, y: number }, isMarquee: boolean, isAdditive: boolean }
+    // Without an origin it's a move, otherwise it scales around the origin
+    | { kind: 'transform', start: { x: number, y: number }, origin: [number, number] | null, bounds: Bounds, transform: SelectionTransform }
 
 export default function App() {
+    const roomId = useMemo(() => getRoomIdFromPath(location.pathname), [])
+
+    return (
+        <div>
+            <div className='photograph-a'><Photograph /></div>
+            <div className='photograph-b'><Photograph /></div>
+
+            {roomId ? <Editor roomId={roomId} documents={null} /> : <DocumentEditor />}
+        </div>
+    )
+}
+
+function DocumentEditor() {
+    const documents = useDocuments()
+    const [isGalleryOpen, setIsGalleryOpen] = useState(false)
+
+    return (
+        <>
+            {/* Remounting per document gives each one a fresh history, viewport and redo stack */}
+            <Editor
+                key={documents.current.id}
+                roomId={null}
+                documents={documents}
+                isGalleryOpen={isGalleryOpen}
+                onOpenGallery={() => setIsGalleryOpen(true)}
+            />
+            {isGalleryOpen && <Gallery documents={documents} onClose={() => setIsGalleryOpen(false)} />}
+        </>
+    )
+}
+
+interface EditorProps {
+    roomId: string | null
+    // Null in rooms, which live on the server instead.
+    documents: Documents | null
+    // Keyboard shortcuts are off while it's covering everything.
+    isGalleryOpen?: boolean
+    onOpenGallery?: () => void
+}
+
+function Editor({ roomId, documents, isGalleryOpen, onOpenGallery }: EditorProps) {
     const containerRef = useRef<HTMLDivElement>(null)
     const staticCanvasRef = useRef<HTMLCanvasElement>(null)
     const activeCanvasRef = useRef<HTMLCanvasElement>(null)
     const inProgress = useRef(new Map<number, Point[]>())
-    const redo = useRef<Action[]>([])
+    const undoStack = useRef<Operation[]>([])
+    const redo = useRef<Operation[]>([])
+    // Bumped whenever the undo or redo stack changes, since they're refs
+    const [operationsVersion, setOperationsVersion] = useState(0)
+    // Nothing gets stored until the stored stacks have been loaded, so they aren't written over
+    const areOperationsLoaded = useRef(false)
     const [sharingBlob, setSharingBlob] = useState<Blob | null>(null)
+    const [isReplaying, setIsReplaying] = useState(false)
+    // How far along drawing the image to share is
+    const [shareProgress, setShareProgress] = useState<number | null>(null)
+    const shareController = useRef<AbortController | null>(null)
+    const [notice, setNotice] = useState<string | null>(null)
+    const openInputRef = useRef<HTMLInputElement>(null)
+    const [keymapOverrides, setKeymapOverrides] = useLocalState<KeymapOverrides>('keymap', {})
+    const keymap = useMemo(() => resolveKeymap(keymapOverrides), [keymapOverrides])
+    const [isShowingKeymap, setIsShowingKeymap] = useState(false)
+    // Holding the pan key makes dragging move the canvas around instead of drawing
+    const [panMode, setPanMode] = useState<'ready' | 'dragging' | null>(null)
+    const panKey = useRef<string | null>(null)
+    const panDrag = useRef<{ clientX: number, clientY: number, x: number, y: number } | null>(null)
     
-    const [brush, setBrush] = useLocalState<Brush>('brush', 'pen')
+    const [brush, setBrush] = useLocalState<Brush>('brush', 'pen', parseBrush)
     const [penSize, setPenSize] = useLocalState<number>('pen-size', 5)
     const [eraserSize, setEraserSize] = useLocalState<number>('eraser-size', 8)
-    const [position, setPosition] = useLocalState<CanvasPosition>('position', { x: 0, y: 0, zoom: 1 })
-    const [history, setHistory] = useLocalState<Action[]>('history', [])
+    // Pixel erasing rubs out whatever's underneath, object erasing deletes whole actions
+    const [eraserMode, setEraserMode] = useLocalState<'pixel' | 'object'>('eraser-mode', 'pixel')
+    const isObjectErasing = brush === 'eraser' && eraserMode === 'object'
+    const [penColor, setPenColor] = useLocalState<string>('pen-color', defaultColor)
+    const [penOpacity, setPenOpacity] = useLocalState<number>('pen-opacity', 1)
+    const [recentColors, setRecentColors] = useLocalState<string[]>('recent-colors', [])
+    const [presetId, setPresetId] = useLocalState<string>('brush-preset', defaultBrushPreset.id)
+    const preset = getBrushPreset(presetId)
+    const [textFont, setTextFont] = useLocalState<TextFont>('text-font', 'comic')
+    const [textSize, setTextSize] = useLocalState<number>('text-size', 32)
+    const [stickerId, setStickerId] = useLocalState<string>('sticker', defaultStickerId)
+    const [stickerSizeSetting, setStickerSizeSetting] = useLocalState<number>('sticker-size', stickerSize)
+    // In degrees, which is what the slider shows
+    const [stickerRotation, setStickerRotation] = useLocalState<number>('sticker-rotation', 0)
+
+    // Rooms live on the server, so only documents are kept in localStorage
+    const documentId = documents?.current.id ?? null
+    const [position, setPosition] = useLocalState<CanvasPosition>(
+        documentId && positionKey(documentId),
+        { x: 0, y: 0, zoom: 1 },
+    )
+    const [history, setHistory, isHistoryLoaded] = useStoredHistory(documentId, setNotice)
+    const latestHistory = useRef(history)
+    latestHistory.current = history
+
+    const [layers, setLayers] = useLocalState<Layer[]>(documentId && layersKey(documentId), defaultLayers)
+    const latestLayers = useRef(layers)
+    latestLayers.current = layers
+    const [activeLayerId, setActiveLayerId] = useState(() => layers.at(-1)!.id)
+    // Someone in a room might delete the layer we're on
+    const activeLayer = layers.find((layer) => layer.id === activeLayerId) ?? layers.at(-1)!
+
+    const [frames, setFrames] = useLocalState<Frame[]>(documentId && framesKey(documentId), defaultFrames)
+    const latestFrames = useRef(frames)
+    latestFrames.current = frames
+    const [activeFrameId, setActiveFrameId] = useState(() => frames[0]!.id)
+    // The same goes for frames
+    const activeFrame = frames.find((frame) => frame.id === activeFrameId) ?? frames[0]!
+    // Only the frame being drawn on gets shown, so it's all that can be selected or erased
+    const frameHistory = useMemo(() => getFrameActions(history, frames, activeFrame.id), [history, frames, activeFrame.id])
+    const [isPlaying, setIsPlaying] = useState(false)
+    const isFlipping = isPlaying && frames.length > 1
+    const [fps, setFps] = useLocalState<number>('flipbook-fps', defaultFps)
+    const [showOnionSkin, setShowOnionSkin] = useLocalState<boolean>('onion-skin', false)
+
+    // The text being typed, and the text action it's going to replace if it's an edit
+    const [editingText, setEditingText] = useState<{ action: TextAction, replaces: TextAction | null } | null>(null)
+
+    const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set())
+    // Hiding or locking a layer lets go of anything selected on it
+    const selection = useMemo(
+        () => frameHistory.filter((action) => selectedIds.has(action.id) && isEditable(action, layers)),
+        [frameHistory, selectedIds, layers],
+    )
+    const selectionDrag = useRef<SelectionDrag | null>(null)
+    // Where the pointer was last over the canvas, in world coordinates, for pasting images there
+    const lastPointer = useRef<{ x: number, y: number } | null>(null)
+    // What the object eraser has touched so far in this drag
+    const objectErased = useRef(new Map<string, Action>())
+    const [isTransforming, setIsTransforming] = useState(false)
+
+    // An earlier or later point in the timeline being looked at, which is drawn instead
+    const [timelinePreview, setTimelinePreview] = useState<HistoryState | null>(null)
+    const shownLayers = timelinePreview?.layers ?? layers
+
+    // Text being edited is drawn by the editor, and a selection being dragged around is drawn on
+    // the active canvas, so neither goes on the static canvas
+    const renderedHistory = useMemo(() => {
+        if (timelinePreview) return getFrameActions(timelinePreview.history, frames, activeFrame.id)
+        const replaces = editingText?.replaces
+        if (replaces) return frameHistory.filter((action) => action.id !== replaces.id)
+        if (isTransforming) return frameHistory.filter((action) => !selectedIds.has(action.id))
+        return frameHistory
+    }, [frameHistory, frames, activeFrame.id, editingText?.replaces, isTransforming, selectedIds, timelinePreview])
+
+    // Long layers are drawn from a checkpoint of their older actions, when it's sharp enough
+    const [checkpoints, setCheckpoints] = useState(() => new Map<string, Checkpoint>())
+    const renderScale = position.zoom * (window.devicePixelRatio || 1)
+    const renderedLayers = useMemo(() => {
+        const groups = groupByLayer(renderedHistory, shownLayers)
+        for (const [id, actions] of groups) groups.set(id, applyCheckpoint(actions, checkpoints.get(id), renderScale))
+        return groups
+    }, [renderedHistory, shownLayers, checkpoints, renderScale])
+
+    const room = useRoom(roomId, {
+        setHistory,
+        setLayers,
+        setFrames,
+        onPeersChange: () => renderActiveStrokes(),
+    })
+    const roomRef = useRef(room)
+    roomRef.current = room
+
+    // The history as it was loaded or last modified, null until it's loaded
+    const modifiedHistoryRef = useRef<Action[] | null>(null)
+
+    useEffect(() => {
+        if (!documentId || !isHistoryLoaded) return
+        if (modifiedHistoryRef.current === null) {
+            modifiedHistoryRef.current = history
+            if (documents?.current.thumbnail) return
+        } else if (modifiedHistoryRef.current !== history) {
+            modifiedHistoryRef.current = history
+            documents?.update(documentId, { modified: Date.now() })
+        } else if (documents?.current.thumbnail) {
+            return
+        }
+
+        // Refresh the gallery thumbnail once drawing settles down
+        const controller = new AbortController()
+        const timeout = setTimeout(async () => {
+            try {
+                // Flipbooks are shown by their first frame
+                const firstFrame = getFrameActions(history, latestFrames.current, latestFrames.current[0]!.id)
+                const thumbnail = await createThumbnail(firstFrame, latestLayers.current, undefined, { signal: controller.signal })
+                documents?.update(documentId, { thumbnail })
+            } catch (error) {
+                if (!controller.signal.aborted) console.error(error)
+            }
+        }, 1500)
+        return () => {
+            clearTimeout(timeout)
+            controller.abort()
+        }
+    }, [history, isHistoryLoaded])
+
+    // Undo and redo carry on from where they were last time. Anything done before they've loaded
+    // goes on top of the stored undo stack, and means the stored redo stack is out of date.
+    useEffect(() => {
+        if (!documentId || !isHistoryLoaded) return
+        let isCancelled = false
+        loadStoredOperations(documentId).then((stored) => {
+            if (isCancelled) return
+            if (undoStack.current.length === 0 && redo.current.length === 0) redo.current = stored.redo
+            undoStack.current = [...stored.undo, ...undoStack.current]
+            areOperationsLoaded.current = true
+            setOperationsVersion((version) => version + 1)
+        }).catch((error) => {
+            console.error(error)
+            areOperationsLoaded.current = true
+        })
+        return () => {
+            isCancelled = true
+        }
+    }, [isHistoryLoaded])
+
+    useEffect(() => {
+        if (!documentId || !areOperationsLoaded.current) return
+        storeOperations(documentId, { undo: undoStack.current, redo: redo.current }).catch(console.error)
+    }, [operationsVersion])
+
+    useEffect(() => {
+        if (!notice) return
+        const timeout = setTimeout(() => setNotice(null), 5000)
+        return () => clearTimeout(timeout)
+    }, [notice])
     
     const imageCache = useRef<Map<string, HTMLImageElement>>(new Map())
-    const isFlattening = useRef(false)
+    const [tileCache] = useState(() => createTileCache(imageCache.current))
+    const isCheckpointing = useRef(false)
+
+    function cacheImage(action: ImageCacheAction) {
+        const key = getImageCacheKey(action)
+        const src = getImageSource(action)
+        if (!src || imageCache.current.has(key)) return
+        const img = new Image()
+        img.src = src
+        img.onload = () => {
+            tileCache.refreshImage(key)
+            setResizeTrigger(n => n + 1)
+        }
+        imageCache.current.set(key, img)
+    }
 
-    // Load snapshot images
+    // Load snapshots, pasted images and stickers
     useEffect(() => {
         for (const action of history) {
-            if (action.kind === 'snapshot' && !imageCache.current.has(action.id)) {
-                const img = new Image()
-                img.src = action.dataUrl
-                img.onload = () => {
-                    setResizeTrigger(n => n + 1)
-                }
-                imageCache.current.set(action.id, img)
-            }
+            if (usesImage(action)) cacheImage(action)
         }
     }, [history])
 
-    // Flatten history
+    // The chosen sticker is ready before it gets placed
     useEffect(() => {
-        const TARGET_LENGTH = 100
-        // Use a buffer of 20 items to avoid frequent flattening operations
-        if (history.length <= TARGET_LENGTH + 20 || isFlattening.current) return
+        if (brush === 'sticker') cacheImage(previewSticker(strokeStyle, { x: 0, y: 0 })!)
+    }, [brush, stickerId])
 
-        const flatten = async () => {
-            isFlattening.current = true
+    // Draw checkpoints for long layers. They're only for drawing, so the history keeps every action
+    // and this works in rooms too.
+    useEffect(() => {
+        // Zooming and drawing settle down first
+        const timeout = setTimeout(async () => {
+            if (isCheckpointing.current) return
+            const plans = [...groupByLayer(frameHistory, layers)].flatMap(([layerId, actions]) => {
+                const plan = planCheckpoint(actions, checkpoints.get(layerId), renderScale)
+                return plan ? [{ layerId, ...plan }] : []
+            })
+            if (plans.length === 0) return
+
+            isCheckpointing.current = true
             try {
-                // Keep the last TARGET_LENGTH items active
-                const splitIndex = history.length - TARGET_LENGTH
-                const toFlatten = history.slice(0, splitIndex)
-                
-                const snapshot = await createSnapshot(toFlatten, nanoid(), imageCache.current)
-                
-                // Pre-load the new snapshot image
-                const img = new Image()
-                img.src = snapshot.dataUrl
-                await new Promise<void>(resolve => {
-                    img.onload = () => resolve()
-                    img.onerror = () => resolve()
-                })
-                imageCache.current.set(snapshot.id, img)
-                
-                setHistory((prev) => {
-                    // Abort if history has changed too much
-                    if (prev.length < splitIndex) return prev
-                    
-                    // Replace the flattened items with the new snapshot
-                    return [snapshot, ...prev.slice(splitIndex)]
+                const drawn = new Map<string, Checkpoint>()
+                for (const plan of plans) {
+                    const snapshot = await createSnapshot(plan.actions, nanoid(), plan.scale)
+                    // Nothing but erasers draws nothing, which doesn't need an image
+                    if (snapshot.dataUrl) {
+                        const img = new Image()
+                        img.src = snapshot.dataUrl
+                        await new Promise<void>(resolve => {
+                            img.onload = () => resolve()
+                            img.onerror = () => resolve()
+                        })
+                        imageCache.current.set(snapshot.id, img)
+                    }
+                    drawn.set(plan.layerId, { actions: plan.actions, snapshot: { ...snapshot, layer: plan.layerId }, scale: plan.scale })
+                }
+
+                // Even if the history's moved on since, a checkpoint is only used while it's still
+                // how its layer starts
+                setCheckpoints((prev) => {
+                    const next = new Map(prev)
+                    for (const [layerId, checkpoint] of drawn) {
+                        const replaced = next.get(layerId)
+                        if (replaced) imageCache.current.delete(replaced.snapshot.id)
+                        next.set(layerId, checkpoint)
+                    }
+                    return next
                 })
             } finally {
-                isFlattening.current = false
+                isCheckpointing.current = false
             }
-        }
-        
-        flatten()
-    }, [history, setHistory])
+        }, 500)
+        return () => clearTimeout(timeout)
+    }, [frameHistory, layers, checkpoints, renderScale])
 
     const activePointers = useRef(new Map<number, { clientX: number, clientY: number }>())
     const isGesturing = useRef(false)
@@ -87,13 +374,21 @@ export default function App() {
         pan: { x: 0, y: 0 }
     })
 
-    const size = brush === 'pen' ? penSize : eraserSize
-    const setSize = brush === 'pen' ? setPenSize : setEraserSize
-    const minSize = 2
-    const maxSize = brush === 'pen' ? 30 : 80
+    // Shapes are outlined with the pen's size and color
+    const usesPenStyle = brush === 'pen' || brush === 'text' || isShapeKind(brush)
+    const size = brush === 'text' ? textSize : brush === 'sticker' ? stickerSizeSetting : usesPenStyle ? penSize : eraserSize
+    const setSize = brush === 'text' ? setTextSize : brush === 'sticker' ? setStickerSizeSetting : usesPenStyle ? setPenSize : setEraserSize
+    const minSize = brush === 'text' ? 8 : brush === 'sticker' ? 20 : 2
+    const maxSize = brush === 'text' ? 120 : brush === 'sticker' ? 200 : usesPenStyle ? 30 : 80
 
     const cursor = useMemo(() => {
-        if (brush === 'kitty') {
+        if (panMode) {
+            return panMode === 'dragging' ? 'grabbing' : 'grab'
+        } else if (brush === 'select') {
+            return 'default'
+        } else if (brush === 'text') {
+            return 'text'
+        } else if (brush === 'sticker' || isShapeKind(brush)) {
             return 'crosshair'
         } else {
             const actualSize = size * position.zoom
@@ -116,7 +411,7 @@ export default function App() {
             const encoded = encodeURIComponent(svg.replace(/[\r\n]+/g, '').trim())
             return `url("data:image/svg+xml;utf8,${encoded}") ${svgSize / 2} ${svgSize / 2}, auto`
         }
-    }, [size, position.zoom, brush])
+    }, [size, position.zoom, brush, panMode])
 
     function renderActiveStrokes() {
         const canvas = activeCanvasRef.current
@@ -135,35 +430,60 @@ export default function App() {
         ctx.translate(-position.x, -position.y)
         ctx.scale(position.zoom, position.zoom)
 
-        // Draw in-progress
-        if (inProgress.current.size > 0) {
-            if (brush === 'kitty') {
-                ctx.globalCompositeOperation = 'source-over'
-                
-                for (const points of inProgress.current.values()) {
-                    const point = points[0]
-                    if (!point) continue
-                    ctx.drawImage(kitty, point.x - kittySize / 2, point.y - kittySize / 2, kittySize, kittySize)
+        // Draw everyone else in the room underneath our own strokes
+        if (room) {
+            for (const [participantId, presence] of room.peers) {
+                if (presence.stroke) {
+                    const sticker = previewSticker(presence.stroke, presence.stroke.points[0])
+                    if (sticker) cacheImage(sticker)
+                    renderInProgress(ctx, presence.stroke, [presence.stroke.points], imageCache.current)
+                }
+                if (presence.cursor) {
+                    ctx.globalCompositeOperation = 'source-over'
+                    ctx.fillStyle = peerColor(participantId)
+                    ctx.beginPath()
+                    ctx.arc(presence.cursor.x, presence.cursor.y, 5 / position.zoom, 0, Math.PI * 2)
+                    ctx.fill()
                 }
-
-                return
             }
+        }
 
-            const inProgressPaths = [...inProgress.current.values()].map(points => pointsToPath(points, size))
-            
-            if (brush === 'eraser') {
-                // For erasing, we draw white on the active layer to simulate looking through to background
-                ctx.fillStyle = 'white'
-                ctx.globalCompositeOperation = 'source-over'
-            } else {
-                ctx.fillStyle = 'black'
-                ctx.globalCompositeOperation = 'source-over'
-            }
-            
-            for (const path of inProgressPaths) renderPath(ctx, path)
+        // Draw in-progress
+        if (isObjectErasing) {
+            for (const action of objectErased.current.values()) renderHighlight(ctx, action)
+        } else if (inProgress.current.size > 0) {
+            renderInProgress(ctx, strokeStyle, [...inProgress.current.values()], imageCache.current)
+        }
+
+        const drag = selectionDrag.current
+        if (drag?.kind === 'lasso') {
+            renderLasso(ctx, drag.points, position.zoom)
+        } else if (drag?.kind === 'transform') {
+            renderActions(ctx, selection.map((action) => transformAction(action, drag.transform)), imageCache.current)
+            renderSelection(ctx, transformBounds(drag.transform, drag.bounds), position.zoom)
+        } else {
+            const bounds = getSelectionBounds(selection)
+            if (bounds) renderSelection(ctx, bounds, position.zoom)
         }
     }
 
+    const strokeStyle: StrokeStyle = {
+        brush,
+        size,
+        color: penColor,
+        opacity: penOpacity,
+        preset: preset.id,
+        ...(brush === 'sticker' && { sticker: stickerId, rotation: stickerRotation * Math.PI / 180 }),
+    }
+
+    function updatePresence(cursor: Presence['cursor'], points: Point[] | undefined) {
+        room?.setPresence({
+            cursor,
+            // Object erasing doesn't leave a stroke behind to show
+            stroke: points && points.length > 0 && !isObjectErasing ? { ...strokeStyle, points } : null,
+        })
+    }
+
     useEffect(() => {
         function onWheel(event: WheelEvent) {
             event.preventDefault()
@@ -173,7 +493,7 @@ export default function App() {
                     const mouseYWorld = (event.clientY + draft.y) / draft.zoom
 
                     const zoomChange = 1 - event.deltaY * 0.01
-                    const newZoom = Math.max(Math.min(draft.zoom * zoomChange, 15), 0.05)
+                    const newZoom = clampZoom(draft.zoom * zoomChange)
                     
                     draft.zoom = newZoom
                     draft.x = (mouseXWorld * newZoom) - event.clientX
@@ -185,45 +505,117 @@ export default function App() {
             }))
         }
 
+        containerRef.current?.addEventListener('wheel', onWheel, { passive: false })
+        return () => containerRef.current?.removeEventListener('wheel', onWheel)
+    }, [])
+
+    // Shortcuts change the brush, its size and the view, so like the selection ones below these
+    // get set up again every render
+    useEffect(() => {
         function onKeyDown(event: KeyboardEvent) {
-            let shortcut: 'undo' | 'redo' | null = null
-            if (event.ctrlKey || event.metaKey) {
-                if (event.code === 'KeyZ') {
-                    shortcut = event.shiftKey ? 'redo' : 'undo'
-                } else if (event.code === 'KeyY') {
-                    shortcut = 'redo'
-                }
-            }
+            // Leave typing alone, and anything open on top, which includes the shortcuts being changed
+            if (event.target instanceof HTMLElement && event.target.closest('input, textarea')) return
+            if (isGalleryOpen || sharingBlob || isReplaying || isShowingKeymap) return
 
-            if (shortcut === 'undo') {
-                event.preventDefault()
-                setHistory((history) => {
-                    if (history.length === 0) return history
-                    redo.current.unshift(history.at(-1)!)
-                    return history.slice(0, -1)
-                })
-            } else if (shortcut === 'redo') {
-                event.preventDefault()
-                if (redo.current.length > 0) {
-                    setHistory((history) => [...history, redo.current.shift()!])
-                }
-            }
+            const binding = getBinding(event)
+            const command = binding && findCommand(keymap, binding)
+            if (!command) return
+            event.preventDefault()
+            if (event.repeat && !getCommand(command).repeats) return
+            if (command === 'pan') panKey.current = event.code
+            runCommand(command)
         }
 
-        containerRef.current?.addEventListener('wheel', onWheel, { passive: false })
-        window.addEventListener('keydown', onKeyDown)
+        function onKeyUp(event: KeyboardEvent) {
+            if (event.code === panKey.current) stopPanning()
+        }
 
+        window.addEventListener('keydown', onKeyDown)
+        window.addEventListener('keyup', onKeyUp)
+        window.addEventListener('blur', stopPanning)
         return () => {
-            containerRef.current?.removeEventListener('wheel', onWheel)
             window.removeEventListener('keydown', onKeyDown)
+            window.removeEventListener('keyup', onKeyUp)
+            window.removeEventListener('blur', stopPanning)
         }
-    }, [])
+    })
 
-    const [resizeTrigger, setResizeTrigger] = useState(0)
+    function runCommand(command: Command) {
+        if (command === 'undo') {
+            undo()
+        } else if (command === 'redo') {
+            redoLast()
+        } else if (command === 'pen' || command === 'eraser' || command === 'sticker') {
+            switchBrush(command)
+        } else if (command === 'size-down' || command === 'size-up') {
+            // Bigger steps for bigger sizes, but always at least one
+            const next = command === 'size-up' ? Math.max(size + 1, Math.round(size * 1.2)) : Math.min(size - 1, Math.round(size / 1.2))
+            setSize(Math.min(Math.max(next, minSize), maxSize))
+        } else if (command === 'zoom-in') {
+            zoomTo((zoom) => zoom * 1.25)
+        } else if (command === 'zoom-out') {
+            zoomTo((zoom) => zoom / 1.25)
+        } else if (command === 'zoom-reset') {
+            zoomTo(() => 1)
+        } else if (command === 'zoom-fit') {
+            fitToScreen()
+        } else if (command === 'pan') {
+            setPanMode((mode) => mode ?? 'ready')
+        } else if (command === 'share') {
+            if (!shareController.current) share()
+        } else if (command === 'shortcuts') {
+            setIsShowingKeymap(true)
+        }
+    }
+
+    // A drag that's already going carries on until it's let go of
+    function stopPanning() {
+        panKey.current = null
+        setPanMode((mode) => mode === 'dragging' ? mode : null)
+    }
 
-    const prevHistoryRef = useRef<Action[]>([])
-    const prevPositionRef = useRef<CanvasPosition>(position)
-    const prevResizeTriggerRef = useRef<number>(0)
+    function finishPanDrag() {
+        panDrag.current = null
+        setPanMode(panKey.current ? 'ready' : null)
+    }
+
+    // Zooms around the middle of the screen
+    function zoomTo(getZoom: (zoom: number) => number) {
+        setPosition((position) => {
+            const zoom = clampZoom(getZoom(position.zoom))
+            const centerX = window.innerWidth / 2
+            const centerY = window.innerHeight / 2
+            return {
+                zoom,
+                x: (centerX + position.x) / position.zoom * zoom - centerX,
+                y: (centerY + position.y) / position.zoom * zoom - centerY,
+            }
+        })
+    }
+
+    // Fits everything in the frame being drawn on, or goes back to the start if there's nothing
+    function fitToScreen() {
+        const visible = getVisibleActions(frameHistory, layers).filter((action) => action.kind !== 'eraser')
+        if (visible.length === 0) {
+            setPosition({ x: 0, y: 0, zoom: 1 })
+            return
+        }
+
+        // Leaving room for the toolbar
+        const padding = 80
+        const bounds = getHistoryBounds(visible)
+        const zoom = clampZoom(Math.min(
+            (window.innerWidth - padding * 2) / Math.max(1, bounds.maxX - bounds.minX),
+            (window.innerHeight - padding * 2) / Math.max(1, bounds.maxY - bounds.minY),
+        ))
+        setPosition({
+            zoom,
+            x: (bounds.minX + bounds.maxX) / 2 * zoom - window.innerWidth / 2,
+            y: (bounds.minY + bounds.maxY) / 2 * zoom - window.innerHeight / 2,
+        })
+    }
+
+    const [resizeTrigger, setResizeTrigger] = useState(0)
 
     useEffect(() => {
         const staticCanvas = staticCanvasRef.current
@@ -283,150 +675,781 @@ export default function App() {
             canvas.style.height = `${height}px`
         }
 
-        const dpr = targetDpr
-        
-        const isResize = resizeTrigger !== prevResizeTriggerRef.current
-        const posChanged = position.x !== prevPositionRef.current.x || 
-                           position.y !== prevPositionRef.current.y || 
-                           position.zoom !== prevPositionRef.current.zoom
-
-        if (isResize || posChanged || sizeChanged) {
-            // Full redraw
-
-            ctx.setTransform(1, 0, 0, 1, 0, 0)
-            ctx.clearRect(0, 0, canvas.width, canvas.height)
-            ctx.scale(dpr, dpr)
-            ctx.translate(-position.x, -position.y)
-            ctx.scale(position.zoom, position.zoom)
-            renderActions(ctx, history, imageCache.current)
-        } else {
-            // Check for incremental update
-            const prev = prevHistoryRef.current
-            const curr = history
-            let match = true
-            let i = 0
-            
-            // Find the first point of divergence
-            for (; i < prev.length; i++) {
-                if (i >= curr.length || prev[i] !== curr[i]) {
-                    match = false
-                    break
-                }
-            }
+        // The frames either side go underneath, but not while it's playing
+        const index = frames.indexOf(activeFrame)
+        const onionSkins = showOnionSkin && !isFlipping && !timelinePreview
+            ? ([[frames[index - 1], onionSkinColors.previous], [frames[index + 1], onionSkinColors.next]] as const)
+                .flatMap(([frame, color]) => frame ? [{ frame, color }] : [])
+            : []
+
+        // Each layer is drawn from its tiles, which only get drawn again when what's on them changes
+        tileCache.keepLayers([
+            ...shownLayers.map((layer) => layer.id),
+            ...onionSkins.flatMap(({ frame }) => layers.map((layer) => getOnionSkinLayerId(frame, layer))),
+        ])
+        ctx.setTransform(1, 0, 0, 1, 0, 0)
+        ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-            if (match) {
-                // Draw new items only
-                ctx.setTransform(1, 0, 0, 1, 0, 0)
-                ctx.scale(dpr, dpr)
-                ctx.translate(-position.x, -position.y)
-                ctx.scale(position.zoom, position.zoom)
+        for (const { frame, color } of onionSkins) {
+            renderOnionSkin(ctx, frame, getFrameActions(history, frames, frame.id), layers, tileCache, position, targetDpr, color)
+        }
 
-                for (let j = i; j < curr.length; j++) {
-                    const action = curr[j]!
-                    renderAction(ctx, action, imageCache.current)
-                }
-            } else {
-                // Full redraw
-                ctx.setTransform(1, 0, 0, 1, 0, 0)
-                ctx.clearRect(0, 0, canvas.width, canvas.height)
-                ctx.scale(dpr, dpr)
-                ctx.translate(-position.x, -position.y)
-                ctx.scale(position.zoom, position.zoom)
-                renderActions(ctx, history, imageCache.current)
-            }
+        for (const layer of shownLayers) {
+            tileCache.update(layer.id, renderedLayers.get(layer.id)!)
+            if (layer.visible) tileCache.draw(ctx, layer.id, position, targetDpr, layer.opacity)
         }
+    }, [renderedLayers, shownLayers, position, resizeTrigger, history, frames, activeFrame, showOnionSkin, isFlipping, timelinePreview])
 
-        prevHistoryRef.current = history
-        prevPositionRef.current = position
-        prevResizeTriggerRef.current = resizeTrigger
-        
-    }, [history, position, resizeTrigger])
+    // Flipping through the frames
+    useEffect(() => {
+        if (!isFlipping) return
+        const interval = setInterval(() => {
+            setActiveFrameId((id) => {
+                const frames = latestFrames.current
+                return frames[(frames.findIndex((frame) => frame.id === id) + 1) % frames.length]!.id
+            })
+        }, 1000 / fps)
+        return () => clearInterval(interval)
+    }, [isFlipping, fps])
 
     // Re-render active strokes when view changes
     useEffect(() => {
         renderActiveStrokes()
-    }, [position, size, brush, resizeTrigger])
+    }, [position, size, brush, eraserMode, penColor, penOpacity, preset, selection, resizeTrigger])
 
     function commitStroke(pointerId: number) {
-        if (brush === 'kitty') {
-            const point = inProgress.current.get(pointerId)![0]
-            if (!point) return
-
-            redo.current = []
-            setHistory(produce((draft) => {
-                draft.push({
-                    id: nanoid(),
-                    kind: 'kitty',
-                    x: point.x,
-                    y: point.y,
-                })
-            }))
+        // Text is placed with its own editor, and selecting doesn't draw anything
+        if (brush === 'text' || brush === 'select') return
+
+        if (isObjectErasing) {
+            // Everything touched in one drag goes away together, as one step to undo
+            const erased = new Set(objectErased.current.keys())
+            objectErased.current.clear()
+            if (erased.size > 0) {
+                recordOperation({ before: latestHistory.current.filter((action) => erased.has(action.id)), after: [] })
+            }
+            return
+        }
+
+        if (brush === 'sticker') {
+            const sticker = previewSticker(strokeStyle, inProgress.current.get(pointerId)![0])
+            if (!sticker) return
+
+            pushAction({ ...sticker, id: nanoid(), layer: activeLayer.id, frame: activeFrame.id })
             inProgress.current.set(pointerId, [])
 
             return
         }
 
-        const stroke = pointsToPath(inProgress.current.get(pointerId)!, size)
-        redo.current = []
-        setHistory(produce((draft) => {
-            draft.push({
+        if (isShapeKind(brush)) {
+            const points = inProgress.current.get(pointerId)!
+            const start = points[0]
+            const end = points.at(-1)
+            inProgress.current.set(pointerId, [])
+            // A click without a drag doesn't make anything
+            if (!start || !end || (start.x === end.x && start.y === end.y)) return
+
+            pushAction({
+                id: nanoid(),
+                kind: 'shape',
+                shape: brush,
+                x1: start.x,
+                y1: start.y,
+                x2: end.x,
+                y2: end.y,
+                size,
+                color: penColor,
+                opacity: penOpacity,
+                layer: activeLayer.id,
+                frame: activeFrame.id,
+            })
+            setRecentColors((recentColors) => addRecentColor(recentColors, penColor))
+            return
+        }
+
+        if (brush === 'pen') {
+            pushAction({
+                id: nanoid(),
+                kind: 'pen',
+                path: pointsToPath(inProgress.current.get(pointerId)!, size, preset),
+                color: penColor,
+                opacity: penOpacity,
+                preset: preset.id,
+                layer: activeLayer.id,
+                frame: activeFrame.id,
+            })
+            setRecentColors((recentColors) => addRecentColor(recentColors, penColor))
+        } else {
+            pushAction({
                 id: nanoid(),
                 kind: brush,
-                path: stroke,
+                path: pointsToPath(inProgress.current.get(pointerId)!, size),
+                layer: activeLayer.id,
+                frame: activeFrame.id,
             })
-        }))
+        }
         inProgress.current.set(pointerId, [])
     }
 
-    return (
-        <div>
-            <div className='photograph-a'><Photograph /></div>
-            <div className='photograph-b'><Photograph /></div>
+    // Typing picks up whatever style gets chosen in the toolbar
+    useEffect(() => {
+        setEditingText((editing) => editing && {
+            ...editing,
+            action: { ...editing.action, font: textFont, size: textSize, color: penColor, opacity: penOpacity },
+        })
+    }, [textFont, textSize, penColor, penOpacity])
+
+    function startEditingText(action: TextAction, replaces: TextAction | null) {
+        setEditingText({ action, replaces })
+    }
+
+    function finishEditingText() {
+        if (!editingText) return
+        const { action, replaces } = editingText
+        setEditingText(null)
+
+        const isEmpty = action.text.trim().length === 0
+        if (replaces) {
+            const isUnchanged = action.text === replaces.text && action.font === replaces.font
+                && action.size === replaces.size && action.color === replaces.color && action.opacity === replaces.opacity
+            if (isUnchanged) return
+
+            recordOperation({ before: [replaces], after: isEmpty ? [] : [action] })
+        } else if (!isEmpty) {
+            pushAction(action)
+        }
+    }
+
+    // The topmost text at a world point that we're allowed to change.
+    function findTextAt(x: number, y: number): TextAction | null {
+        const history = latestHistory.current
+        for (let i = history.length - 1; i >= 0; i--) {
+            const action = history[i]!
+            if (action.kind !== 'text' || !isEditable(action, layers) || (room && !room.isOwn(action.id))) continue
+            if (getFrameId(action, frames) !== activeFrame.id) continue
+            const bounds = getActionBounds(action)
+            if (x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY) return action
+        }
+        return null
+    }
+
+    function switchBrush(next: Brush) {
+        finishEditingText()
+        if (next !== 'select') setSelectedIds(new Set())
+
+        // This will create duplicate history entries per stroke but this simplification
+        // is acceptable for now, since this is an edge case and drawing with multiple
+        // pointers isn't even a thing right now.
+        for (const pointerId of inProgress.current.keys()) commitStroke(pointerId)
+        renderActiveStrokes()
+        setBrush(next)
+    }
+
+    function saveDocument() {
+        const info = documents?.current ?? { title: `room ${roomId}`, created: Date.now(), modified: Date.now() }
+        const blob = serializeJetchFile({
+            title: info.title,
+            created: info.created,
+            modified: info.modified,
+            position,
+            layers,
+            frames,
+            actions: history,
+            images: collectImages(history),
+        })
+        downloadBlob(blob, jetchFilename(info.title))
+    }
+
+    async function openDocument(file: File) {
+        if (!documents) {
+            setNotice('you can\'t open a drawing inside a room')
+            return
+        }
+        if (!isJetchFile(file)) {
+            setNotice('that\'s not a .jetch drawing')
+            return
+        }
+
+        const result = parseJetchFile(await file.text())
+        if (!result.ok) {
+            setNotice(result.error)
+            return
+        }
+
+        // Opened drawings get their own document rather than replacing this one
+        const { actions, ...info } = result.document
+        documents.create({ ...info, history: actions })
+    }
+
+    function pushAction(action: Action) {
+        recordOperation({ before: [], after: [action] })
+    }
+
+    // Only uses refs, since undo and redo get called from a listener that's set up once.
+    function performOperation(operation: Operation) {
+        setHistory((history) => applyOperation(history, operation))
+        if (operation.layers) setLayers(operation.layers.after)
+        if (operation.frames) setFrames(operation.frames.after)
+
+        const room = roomRef.current
+        if (!room) return
+        if (operation.layers) room.setLayers(operation.layers.after)
+        if (operation.frames) room.setFrames(operation.frames.after)
+        const beforeIds = new Set(operation.before.map((action) => action.id))
+        const afterIds = new Set(operation.after.map((action) => action.id))
+        for (const action of operation.before) {
+            if (!afterIds.has(action.id)) room.remove(action.id)
+        }
+        for (const action of operation.after) {
+            if (beforeIds.has(action.id)) {
+                room.update(action)
+            } else {
+                room.commit(action)
+            }
+        }
+    }
+
+    function recordOperation(operation: Operation) {
+        // New actions get the time they were drawn for timelapses, and changed ones keep theirs
+        const now = Date.now()
+        const before = new Map(operation.before.map((action) => [action.id, action]))
+        const after = operation.after.map((action) => {
+            const time = before.has(action.id) ? before.get(action.id)!.time : now
+            return time === undefined || action.time === time ? action : { ...action, time }
+        })
+        operation = { ...operation, after }
+
+        undoStack.current.push(operation)
+        redo.current = []
+        performOperation(operation)
+        setOperationsVersion((version) => version + 1)
+    }
+
+    function undo() {
+        const history = latestHistory.current
+        let operation = undoStack.current.pop()
+        while (operation && !canApplyOperation(history, invertOperation(operation))) operation = undoStack.current.pop()
+
+        if (!operation) {
+            // Nothing's been done since loading, so take back the latest action.
+            // In a room you can only undo your own actions.
+            const room = roomRef.current
+            const action = history.findLast((action) => !room || room.isOwn(action.id))
+            if (!action) return
+            operation = { before: [], after: [action] }
+        }
+
+        redo.current.unshift(operation)
+        performOperation(invertOperation(operation))
+        setOperationsVersion((version) => version + 1)
+    }
+
+    function redoLast() {
+        const history = latestHistory.current
+        let operation = redo.current.shift()
+        while (operation && !canApplyOperation(history, operation)) operation = redo.current.shift()
+        if (!operation) return
+
+        undoStack.current.push(operation)
+        performOperation(operation)
+        setOperationsVersion((version) => version + 1)
+    }
+
+    // Undoes or redoes until the undo stack is `index` long. Drawing anything from there drops
+    // whatever was ahead, the same as after undoing.
+    function jumpTo(index: number) {
+        let history = latestHistory.current
+        while (undoStack.current.length > index) {
+            const operation = undoStack.current.pop()!
+            const inverse = invertOperation(operation)
+            if (!canApplyOperation(history, inverse)) continue
+            history = applyOperation(history, inverse)
+            redo.current.unshift(operation)
+            performOperation(inverse)
+        }
+        for (let steps = index - undoStack.current.length; steps > 0; steps--) {
+            const operation = redo.current.shift()
+            if (!operation) break
+            if (!canApplyOperation(history, operation)) continue
+            history = applyOperation(history, operation)
+            undoStack.current.push(operation)
+            performOperation(operation)
+        }
+        setOperationsVersion((version) => version + 1)
+    }
+
+    // What the drawing looks like with the undo stack `index` long.
+    function getTimelineState(index: number): HistoryState {
+        const state = { history: latestHistory.current, layers: latestLayers.current }
+        const undone = undoStack.current
+        if (index <= undone.length) return replayOperations(state, undone.slice(index).reverse().map(invertOperation))
+        return replayOperations(state, redo.current.slice(0, index - undone.length))
+    }
+
+    // In a room you can only change your own actions
+    function canSelect(action: Action): boolean {
+        return isSelectable(action) && isEditable(action, layers) && (!room || room.isOwn(action.id))
+    }
 
+    // Like the pixel eraser, this only affects the layer being drawn on
+    function eraseObjectsAlong(from: Point, to: Point) {
+        const erased = objectErased.current
+        const touched = findActionsAlong(frameHistory, from, to, eraserSize / 2, (action) => !erased.has(action.id)
+            && getLayerId(action, layers) === activeLayer.id && canSelect(action))
+        for (const action of touched) erased.set(action.id, action)
+    }
+
+    function deleteSelection() {
+        if (selection.length === 0) return
+        recordOperation({ before: selection, after: [] })
+        setSelectedIds(new Set())
+    }
+
+    function addToDrawing(actions: Action[]) {
+        recordOperation({ before: [], after: actions })
+        setSelectedIds(new Set(actions.map((action) => action.id)))
+    }
+
+    function duplicateSelection() {
+        if (selection.length === 0) return
+        addToDrawing(cloneActions(selection, 20, 20))
+    }
+
+    async function share() {
+        // Pressing it again while it's still drawing gives up
+        if (shareController.current) {
+            shareController.current.abort()
+            return
+        }
+
+        const controller = new AbortController()
+        shareController.current = controller
+        setShareProgress(0)
+        try {
+            // Flipbooks get shared as animated GIFs
+            const options = { signal: controller.signal, onProgress: setShareProgress }
+            setSharingBlob(frames.length > 1
+                ? await exportFlipbook(history, layers, frames, fps, options)
+                : await exportAsPng(history, layers, options))
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                console.error(error)
+                setNotice('couldn\'t draw that for sharing :(')
+            }
+        } finally {
+            shareController.current = null
+            setShareProgress(null)
+        }
+    }
+
+    // Layers are shared in a room, so changes to them get sent along
+    function changeLayers(next: Layer[]) {
+        setLayers(next)
+        room?.setLayers(next)
+    }
+
+    // New layers go just above the one being drawn on
+    function addLayer() {
+        const layer = createLayer(layers)
+        changeLayers(layers.toSpliced(layers.indexOf(activeLayer) + 1, 0, layer))
+        setActiveLayerId(layer.id)
+    }
+
+    // Everything on the layer goes with it, which can be undone all at once. In a room, whatever
+    // other people drew on it ends up on the bottom layer instead.
+    function deleteLayer(id: string) {
+        const layer = layers.find((layer) => layer.id === id)
+        if (!layer || layers.length === 1) return
+        const actions = history.filter((action) => getLayerId(action, layers) === id && (!room || room.isOwn(action.id)))
+        if (actions.length > 0 && !confirm(`delete "${layer.name}" and everything on it?`)) return
+
+        finishEditingText()
+        recordOperation({ before: actions, after: [], layers: { before: layers, after: layers.filter((layer) => layer.id !== id) } })
+    }
+
+    // Frames are shared in a room too
+    function changeFrames(next: Frame[]) {
+        setFrames(next)
+        room?.setFrames(next)
+    }
+
+    function selectFrame(id: string) {
+        finishEditingText()
+        setSelectedIds(new Set())
+        setActiveFrameId(id)
+    }
+
+    // New frames go just after the one being drawn on, and start out empty
+    function addFrame() {
+        const frame = createFrame()
+        changeFrames(frames.toSpliced(frames.indexOf(activeFrame) + 1, 0, frame))
+        selectFrame(frame.id)
+    }
+
+    // A copy of everything in the frame, which is where most animation starts from
+    function duplicateFrame() {
+        const frame = createFrame()
+        const copies = cloneActions(frameHistory, 0, 0).map((action) => ({ ...action, frame: frame.id }))
+        finishEditingText()
+        recordOperation({
+            before: [],
+            after: copies,
+            frames: { before: frames, after: frames.toSpliced(frames.indexOf(activeFrame) + 1, 0, frame) },
+        })
+        setSelectedIds(new Set())
+        setActiveFrameId(frame.id)
+    }
+
+    // Works like deleting a layer, with whatever other people drew ending up in the first frame
+    function deleteFrame(id: string) {
+        const index = frames.findIndex((frame) => frame.id === id)
+        if (index === -1 || frames.length === 1) return
+        const actions = history.filter((action) => getFrameId(action, frames) === id && (!room || room.isOwn(action.id)))
+        if (actions.length > 0 && !confirm(`delete frame ${index + 1} and everything in it?`)) return
+
+        finishEditingText()
+        setSelectedIds(new Set())
+        recordOperation({ before: actions, after: [], frames: { before: frames, after: frames.toSpliced(index, 1) } })
+        setActiveFrameId(frames[index === 0 ? 1 : index - 1]!.id)
+    }
+
+    // Keeps images somewhere they can be found again, and shares them with the room
+    function addImages(images: Record<string, string>) {
+        if (Object.keys(images).length === 0) return
+        registerImages(images)
+        if (documentId) {
+            storeImages(documentId, images).catch((error) => {
+                console.error(error)
+                setNotice('couldn\'t save that image, so it\'ll be gone after reloading :(')
+            })
+        }
+        for (const [id, dataUrl] of Object.entries(images)) room?.addImage(id, dataUrl)
+    }
+
+    // Centers an image on a world point, at its own size on screen unless it doesn't fit
+    async function insertImage(file: File, x: number, y: number) {
+        if (activeLayer.locked || !activeLayer.visible) {
+            setNotice(`"${activeLayer.name}" is ${activeLayer.locked ? 'locked' : 'hidden'}, so you can't put images on it`)
+            return
+        }
+
+        let prepared
+        try {
+            prepared = await prepareImage(file)
+        } catch (error) {
+            console.error(error)
+            setNotice('couldn\'t read that image, sorry :(')
+            return
+        }
+        addImages({ [prepared.id]: await blobToDataUrl(prepared.blob) })
+
+        const fit = Math.min(1, window.innerWidth * 0.8 / prepared.width, window.innerHeight * 0.8 / prepared.height)
+        const width = prepared.width * fit / position.zoom
+        const height = prepared.height * fit / position.zoom
+        const action: ImageAction = {
+            id: nanoid(),
+            kind: 'image',
+            image: prepared.id,
+            x: x - width / 2,
+            y: y - height / 2,
+            width,
+            height,
+            layer: activeLayer.id,
+            frame: activeFrame.id,
+        }
+
+        finishEditingText()
+        setBrush('select')
+        addToDrawing([action])
+    }
+
+    // Pasted actions go in the middle of the screen, selected so they're easy to move into place
+    function pasteActions(actions: Action[]) {
+        const bounds = getSelectionBounds(actions)
+        if (!bounds) return
+        const centerX = (window.innerWidth / 2 + position.x) / position.zoom
+        const centerY = (window.innerHeight / 2 + position.y) / position.zoom
+
+        finishEditingText()
+        setBrush('select')
+        const clones = cloneActions(actions, centerX - (bounds.minX + bounds.maxX) / 2, centerY - (bounds.minY + bounds.maxY) / 2)
+        addToDrawing(clones.map((action) => ({ ...action, layer: activeLayer.id, frame: activeFrame.id })))
+    }
+
+    // Selection shortcuts and the clipboard need the latest selection, so these get set up again
+    // every render
+    useEffect(() => {
+        function isTyping(event: Event): boolean {
+            return event.target instanceof HTMLElement && event.target.closest('input, textarea') !== null
+        }
+
+        function onKeyDown(event: KeyboardEvent) {
+            if (isTyping(event) || selection.length === 0) return
+            if (event.key === 'Delete' || event.key === 'Backspace') {
+                event.preventDefault()
+                deleteSelection()
+            } else if (event.key === 'Escape') {
+                setSelectedIds(new Set())
+            } else if ((event.ctrlKey || event.metaKey) && event.code === 'KeyD') {
+                event.preventDefault()
+                duplicateSelection()
+            }
+        }
+
+        // Selections go on the clipboard as .jetch files, so they can be pasted into other drawings
+        function onCopy(event: ClipboardEvent) {
+            if (isTyping(event) || selection.length === 0 || !event.clipboardData) return
+            event.preventDefault()
+            event.clipboardData.setData('text/plain', stringifyJetchFile({
+                title: 'clipboard',
+                created: Date.now(),
+                modified: Date.now(),
+                position,
+                layers,
+                frames,
+                actions: selection,
+                images: collectImages(selection),
+            }))
+        }
+
+        function onCut(event: ClipboardEvent) {
+            onCopy(event)
+            if (event.defaultPrevented) deleteSelection()
+        }
+
+        function onPaste(event: ClipboardEvent) {
+            if (isTyping(event)) return
+
+            // Screenshots and copied images come through as files
+            const image = Array.from(event.clipboardData?.files ?? []).find(isImageFile)
+            if (image) {
+                event.preventDefault()
+                const { x, y } = lastPointer.current ?? {
+                    x: (window.innerWidth / 2 + position.x) / position.zoom,
+                    y: (window.innerHeight / 2 + position.y) / position.zoom,
+                }
+                insertImage(image, x, y)
+                return
+            }
+
+            const text = event.clipboardData?.getData('text/plain')
+            if (!text) return
+
+            // Anything that isn't a drawing isn't ours to deal with
+            const result = parseJetchFile(text)
+            if (!result.ok || result.document.actions.length === 0) return
+            event.preventDefault()
+            addImages(result.document.images)
+            pasteActions(result.document.actions)
+        }
+
+        window.addEventListener('keydown', onKeyDown)
+        window.addEventListener('copy', onCopy)
+        window.addEventListener('cut', onCut)
+        window.addEventListener('paste', onPaste)
+        return () => {
+            window.removeEventListener('keydown', onKeyDown)
+            window.removeEventListener('copy', onCopy)
+            window.removeEventListener('cut', onCut)
+            window.removeEventListener('paste', onPaste)
+        }
+    })
+
+    function startSelectionDrag(x: number, y: number, modifiers: { shiftKey: boolean, altKey: boolean }) {
+        const bounds = getSelectionBounds(selection)
+        const origin = bounds && findHandleAt(bounds, x, y, position.zoom)
+        const identity = { originX: x, originY: y, scale: 1, dx: 0, dy: 0 }
+
+        if (bounds && (origin || (x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY))) {
+            selectionDrag.current = { kind: 'transform', start: { x, y }, origin, bounds, transform: identity }
+            setIsTransforming(true)
+            return
+        }
+
+        // Grabbing something selects it straight away, so it can be dragged in one go
+        const hit = findActionAt(frameHistory, x, y, 4 / position.zoom, canSelect)
+        if (hit) {
+            const actions = modifiers.shiftKey ? [...selection, hit] : [hit]
+            setSelectedIds(new Set(actions.map((action) => action.id)))
+            selectionDrag.current = {
+                kind: 'transform',
+                start: { x, y },
+                origin: null,
+                bounds: getSelectionBounds(actions)!,
+                transform: identity,
+            }
+            setIsTransforming(true)
+            return
+        }
+
+        selectionDrag.current = {
+            kind: 'lasso',
+            points: [{ x, y }],
+            start: { x, y },
+            isMarquee: modifiers.altKey,
+            isAdditive: modifiers.shiftKey,
+        }
+    }
+
+    function updateSelectionDrag(x: number, y: number) {
+        const drag = selectionDrag.current
+        if (!drag) return
+
+        if (drag.kind === 'lasso') {
+            if (drag.isMarquee) {
+                const { start } = drag
+                drag.points = [start, { x, y: start.y }, { x, y }, { x: start.x, y }]
+            } else {
+                drag.points.push({ x, y })
+            }
+        } else if (drag.origin) {
+            // Scale by how far along the diagonal the handle has been dragged
+            const [originX, originY] = drag.origin
+            const fromX = drag.start.x - originX
+            const fromY = drag.start.y - originY
+            const scale = ((x - originX) * fromX + (y - originY) * fromY) / (fromX * fromX + fromY * fromY)
+            drag.transform = { originX, originY, scale: Math.max(scale, 0.05), dx: 0, dy: 0 }
+        } else {
+            drag.transform = { ...drag.transform, dx: x - drag.start.x, dy: y - drag.start.y }
+        }
+        renderActiveStrokes()
+    }
+
+    function finishSelectionDrag() {
+        const drag = selectionDrag.current
+        if (!drag) return
+        selectionDrag.current = null
+        setIsTransforming(false)
+
+        if (drag.kind === 'transform') {
+            const { scale, dx, dy } = drag.transform
+            if (scale !== 1 || dx !== 0 || dy !== 0) {
+                recordOperation({ before: selection, after: selection.map((action) => transformAction(action, drag.transform)) })
+            }
+        } else {
+            const lassoed = findActionsInLasso(frameHistory, drag.points, canSelect)
+            const ids = drag.isAdditive ? [...selectedIds, ...lassoed.map((action) => action.id)] : lassoed.map((action) => action.id)
+            setSelectedIds(new Set(ids))
+        }
+        renderActiveStrokes()
+    }
+
+    return (
+        <>
             <div className='toolbar'>
                 <div className='tools'>
+                    {onOpenGallery && (
+                        <>
+                            <button title='your drawings' onClick={onOpenGallery}>
+                                <FaImages />
+                            </button>
+
+                            <div className='divider' />
+                        </>
+                    )}
+
+                    <ToolbarButton
+                        isActive={brush === 'select'}
+                        onActivate={() => switchBrush('select')}
+                        Icon={FaArrowPointer}
+                    />
                     <ToolbarButton
                         isActive={brush === 'pen'}
-                        onActivate={() => {
-                            // This will create duplicate history entries per stroke but this simplification
-                            // is acceptable for now, since this is an edge case and drawing with multiple
-                            // pointers isn't even a thing right now.
-                            for (const pointerId of inProgress.current.keys()) commitStroke(pointerId)
-                            renderActiveStrokes()
-                            setBrush('pen')
-                        }}
+                        onActivate={() => switchBrush('pen')}
                         Icon={FaPenFancy}
                     />
                     <ToolbarButton
                         isActive={brush === 'eraser'}
-                        onActivate={() => {
-                            // See above.
-                            for (const pointerId of inProgress.current.keys()) commitStroke(pointerId)
-                            renderActiveStrokes()
-                            setBrush('eraser')
-                        }}
+                        onActivate={() => switchBrush('eraser')}
                         Icon={FaEraser}
                     />
                     <ToolbarButton
-                        isActive={brush === 'kitty'}
-                        onActivate={() => {
-                            // See above.
-                            for (const pointerId of inProgress.current.keys()) commitStroke(pointerId)
-                            renderActiveStrokes()
-                            setBrush('kitty')
-                        }}
+                        isActive={brush === 'sticker'}
+                        onActivate={() => switchBrush('sticker')}
                         Icon={FaCat}
                     />
+                    <ToolbarButton
+                        isActive={brush === 'text'}
+                        onActivate={() => switchBrush('text')}
+                        Icon={FaFont}
+                    />
+
+                    <div className='divider' />
+
+                    <ToolbarButton
+                        isActive={brush === 'line'}
+                        onActivate={() => switchBrush('line')}
+                        Icon={FaSlash}
+                    />
+                    <ToolbarButton
+                        isActive={brush === 'arrow'}
+                        onActivate={() => switchBrush('arrow')}
+                        Icon={FaArrowRightLong}
+                    />
+                    <ToolbarButton
+                        isActive={brush === 'rectangle'}
+                        onActivate={() => switchBrush('rectangle')}
+                        Icon={FaRegSquare}
+                    />
+                    <ToolbarButton
+                        isActive={brush === 'ellipse'}
+                        onActivate={() => switchBrush('ellipse')}
+                        Icon={FaRegCircle}
+                    />
+
+                    {selection.length > 0 && (
+                        <>
+                            <div className='divider' />
+
+                            <button title='duplicate' onClick={duplicateSelection}>
+                                <FaClone />
+                            </button>
+                            <button title='delete' onClick={deleteSelection}>
+                                <FaTrash />
+                            </button>
+                        </>
+                    )}
 
                     <div className='divider' />
 
+                    <ColorPicker
+                        color={penColor}
+                        opacity={penOpacity}
+                        recentColors={recentColors}
+                        disabled={!usesPenStyle}
+                        onColorChange={setPenColor}
+                        onOpacityChange={setPenOpacity}
+                    />
+                    {brush === 'text' ? (
+                        <FontPicker font={textFont} onChange={setTextFont} />
+                    ) : brush === 'eraser' ? (
+                        <ToolbarButton
+                            title='erase whole things'
+                            isActive={eraserMode === 'object'}
+                            onActivate={() => setEraserMode(eraserMode === 'object' ? 'pixel' : 'object')}
+                            Icon={FaObjectGroup}
+                        />
+                    ) : brush === 'sticker' ? (
+                        <StickerPicker
+                            sticker={stickerId}
+                            rotation={stickerRotation}
+                            onStickerChange={setStickerId}
+                            onRotationChange={setStickerRotation}
+                        />
+                    ) : (
+                        <BrushPicker
+                            preset={preset}
+                            disabled={brush !== 'pen'}
+                            onChange={(preset) => setPresetId(preset.id)}
+                        />
+                    )}
+
                     <div className='size-container'>
                         <input
                             type='range'
                             min={minSize * 1000}
                             max={maxSize * 1000}
                             value={size * 1000}
-                            disabled={brush === 'kitty'}
                             onChange={(event) => setSize(parseInt(event.target.value, 10) / 1000)}
                         />
 
@@ -438,24 +1461,142 @@ export default function App() {
                             <div className={`preview ${brush}`} style={{
                                 width: `${size * position.zoom}px`,
                                 height: `${size * position.zoom}px`,
+                                ...(usesPenStyle && { backgroundColor: penColor, opacity: penOpacity }),
                             }} />
                         </div>
                     </div>
+
+                    <div className='divider' />
+
+                    {/* For anyone without a keyboard */}
+                    <button title='undo' onClick={undo}>
+                        <FaArrowRotateLeft />
+                    </button>
+                    <button title='redo' disabled={redo.current.length === 0} onClick={redoLast}>
+                        <FaArrowRotateRight />
+                    </button>
+                    <HistoryTimeline
+                        undo={undoStack.current}
+                        redo={redo.current}
+                        version={operationsVersion}
+                        getState={getTimelineState}
+                        onPreview={setTimelinePreview}
+                        onJump={jumpTo}
+                        frames={frames}
+                        activeFrameId={activeFrame.id}
+                    />
+
+                    <div className='divider' />
+
+                    <LayersPanel
+                        layers={layers}
+                        activeLayerId={activeLayer.id}
+                        onActivate={(id) => {
+                            finishEditingText()
+                            setActiveLayerId(id)
+                        }}
+                        onChange={changeLayers}
+                        onAdd={addLayer}
+                        onDelete={deleteLayer}
+                    />
+                    <FramesPanel
+                        frames={frames}
+                        activeFrameId={activeFrame.id}
+                        isPlaying={isFlipping}
+                        fps={fps}
+                        showOnionSkin={showOnionSkin}
+                        onActivate={selectFrame}
+                        onChange={changeFrames}
+                        onAdd={addFrame}
+                        onDuplicate={duplicateFrame}
+                        onDelete={deleteFrame}
+                        onPlayingChange={(isPlaying) => {
+                            finishEditingText()
+                            setSelectedIds(new Set())
+                            setIsPlaying(isPlaying)
+                        }}
+                        onFpsChange={setFps}
+                        onOnionSkinChange={setShowOnionSkin}
+                    />
+
+                    <div className='divider' />
+
+                    <button title='save drawing' onClick={saveDocument}>
+                        <FaFloppyDisk />
+                    </button>
+                    <button title='open drawing' onClick={() => openInputRef.current?.click()}>
+                        <FaFolderOpen />
+                    </button>
+                    <input
+                        ref={openInputRef}
+                        type='file'
+                        accept='.jetch'
+                        hidden
+                        onChange={(event) => {
+                            const file = event.target.files?.[0]
+                            event.target.value = ''
+                            if (file) openDocument(file)
+                        }}
+                    />
+                    <button title='download as svg' onClick={async () => {
+                        try {
+                            downloadBlob(await exportAsSvg(frameHistory, layers), 'jetch.svg')
+                        } catch (error) {
+                            console.error(error)
+                            setNotice('couldn\'t make the svg :(')
+                        }
+                    }}>
+                        <FaFileExport />
+                    </button>
+                    <button title='timelapse' disabled={frameHistory.length === 0} onClick={() => setIsReplaying(true)}>
+                        <FaFilm />
+                    </button>
+                    <button title='keyboard shortcuts' onClick={() => setIsShowingKeymap(true)}>
+                        <FaKeyboard />
+                    </button>
                 </div>
-                <button onClick={async () => {
-                    const blob = await exportAsPng(history)
-                    setSharingBlob(blob)
-                }}>
-                    SHARE<span className='mobile-hidden'> WITH PEOPLE</span>
+                <button
+                    title={shareProgress === null ? undefined : 'press again to stop'}
+                    onClick={share}
+                >
+                    {shareProgress === null ? (
+                        <>SHARE<span className='mobile-hidden'> WITH PEOPLE</span></>
+                    ) : (
+                        <>DRAWING {Math.round(shareProgress * 100)}%</>
+                    )}
                 </button>
             </div>
 
             <div
                 ref={containerRef}
                 onContextMenu={(event) => event.preventDefault()}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => {
+                    event.preventDefault()
+                    const file = event.dataTransfer.files[0]
+                    if (!file) return
+                    if (isImageFile(file)) {
+                        insertImage(
+                            file,
+                            (event.clientX + position.x) / position.zoom,
+                            (event.clientY + position.y) / position.zoom,
+                        )
+                    } else {
+                        openDocument(file)
+                    }
+                }}
                 onPointerDown={(event) => {
                     event.preventDefault()
+                    if (!isHistoryLoaded) return
                     containerRef.current?.setPointerCapture(event.pointerId)
+                    // Drawing stops the flipbook on the frame it's showing
+                    setIsPlaying(false)
+
+                    if (panMode) {
+                        panDrag.current = { clientX: event.clientX, clientY: event.clientY, x: position.x, y: position.y }
+                        setPanMode('dragging')
+                        return
+                    }
 
                     activePointers.current.set(event.pointerId, {
                         clientX: event.clientX,
@@ -466,6 +1607,10 @@ export default function App() {
                         // Start gesture
                         isGesturing.current = true
                         inProgress.current.clear() // Cancel any drawing
+                        objectErased.current.clear()
+                        selectionDrag.current = null
+                        setIsTransforming(false)
+                        updatePresence(null, undefined)
                         renderActiveStrokes()
 
                         const pointers = [...activePointers.current.values()]
@@ -483,18 +1628,64 @@ export default function App() {
                             center,
                             pan: { x: position.x, y: position.y },
                         }
+                    } else if (brush !== 'select' && !editingText && (activeLayer.locked || !activeLayer.visible)) {
+                        setNotice(`"${activeLayer.name}" is ${activeLayer.locked ? 'locked' : 'hidden'}, so you can't draw on it`)
+                    } else if (brush === 'select') {
+                        startSelectionDrag(
+                            (event.clientX + position.x) / position.zoom,
+                            (event.clientY + position.y) / position.zoom,
+                            event,
+                        )
+                        renderActiveStrokes()
+                    } else if (brush === 'text') {
+                        // Clicking away finishes the text being typed, otherwise it starts some new text
+                        if (editingText) {
+                            finishEditingText()
+                            return
+                        }
+
+                        const x = (event.clientX + position.x) / position.zoom
+                        const y = (event.clientY + position.y) / position.zoom
+                        // Clicks on existing text are left for double-clicking to edit it
+                        if (findTextAt(x, y)) return
+
+                        startEditingText({
+                            id: nanoid(),
+                            kind: 'text',
+                            // Center the first line on the cursor
+                            x,
+                            y: y - textSize * 0.625,
+                            text: '',
+                            font: textFont,
+                            size: textSize,
+                            color: penColor,
+                            opacity: penOpacity,
+                            layer: activeLayer.id,
+                            frame: activeFrame.id,
+                        }, null)
                     } else if (!isGesturing.current) {
-                        inProgress.current.set(event.pointerId, [
-                            {
-                                x: (event.clientX + position.x) / position.zoom,
-                                y: (event.clientY + position.y) / position.zoom,
-                                pressure: event.pressure,
-                            },
-                        ])
+                        const point = {
+                            x: (event.clientX + position.x) / position.zoom,
+                            y: (event.clientY + position.y) / position.zoom,
+                            pressure: getPointerPressure(event),
+                        }
+                        inProgress.current.set(event.pointerId, [point])
+                        if (isObjectErasing) eraseObjectsAlong(point, point)
+                        updatePresence(point, [point])
                         renderActiveStrokes()
                     }
                 }}
                 onPointerMove={(event) => {
+                    const pan = panDrag.current
+                    if (pan) {
+                        setPosition({
+                            ...position,
+                            x: pan.x - (event.clientX - pan.clientX),
+                            y: pan.y - (event.clientY - pan.clientY),
+                        })
+                        return
+                    }
+
                     activePointers.current.set(event.pointerId, {
                         clientX: event.clientX,
                         clientY: event.clientY,
@@ -512,7 +1703,7 @@ export default function App() {
 
                         const start = gestureStart.current
                         const scale = dist / start.distance
-                        const newZoom = Math.max(Math.min(start.zoom * scale, 15), 0.05)
+                        const newZoom = clampZoom(start.zoom * scale)
 
                         const worldX = (start.center.clientX + start.pan.x) / start.zoom
                         const worldY = (start.center.clientY + start.pan.y) / start.zoom
@@ -529,19 +1720,37 @@ export default function App() {
                         return
                     }
 
-                    const line = inProgress.current.get(event.pointerId)
-                    if (!line) return
-
-                    line.push({
+                    const point = {
                         x: (event.clientX + position.x) / position.zoom,
                         y: (event.clientY + position.y) / position.zoom,
-                        pressure: event.pressure,
-                    })
+                        pressure: getPointerPressure(event),
+                    }
+                    lastPointer.current = point
+                    if (selectionDrag.current) {
+                        updateSelectionDrag(point.x, point.y)
+                        return
+                    }
+
+                    const line = inProgress.current.get(event.pointerId)
+                    if (line && isShapeKind(brush)) {
+                        // Shapes only care about where the drag started and where it is now
+                        line.splice(1, Infinity, event.shiftKey ? constrainShapeEnd(brush, line[0]!, point) : point)
+                    } else {
+                        const previous = line?.at(-1)
+                        line?.push(point)
+                        if (previous && isObjectErasing) eraseObjectsAlong(previous, point)
+                    }
+                    updatePresence(point, line)
+                    if (!line) return
                     
                     renderActiveStrokes()
                 }}
                 onPointerUp={(event) => {
                     containerRef.current?.releasePointerCapture(event.pointerId)
+                    if (panDrag.current) {
+                        finishPanDrag()
+                        return
+                    }
                     activePointers.current.delete(event.pointerId)
                     
                     if (activePointers.current.size < 2) {
@@ -551,14 +1760,36 @@ export default function App() {
                         }
                     }
 
+                    finishSelectionDrag()
+
                     if (inProgress.current.has(event.pointerId)) {
                         commitStroke(event.pointerId)
                         inProgress.current.delete(event.pointerId)
+                        updatePresence({
+                            x: (event.clientX + position.x) / position.zoom,
+                            y: (event.clientY + position.y) / position.zoom,
+                        }, undefined)
                         renderActiveStrokes()
                     }
                 }}
+                onDoubleClick={(event) => {
+                    if (brush !== 'text') return
+                    const text = findTextAt(
+                        (event.clientX + position.x) / position.zoom,
+                        (event.clientY + position.y) / position.zoom,
+                    )
+                    if (text) startEditingText(text, text)
+                }}
+                onPointerLeave={() => {
+                    lastPointer.current = null
+                    updatePresence(null, undefined)
+                }}
                 onPointerCancel={(event) => {
                     containerRef.current?.releasePointerCapture(event.pointerId)
+                    if (panDrag.current) {
+                        finishPanDrag()
+                        return
+                    }
                     activePointers.current.delete(event.pointerId)
                     
                     if (activePointers.current.size < 2) {
@@ -569,6 +1800,10 @@ export default function App() {
                     }
 
                     inProgress.current.delete(event.pointerId)
+                    objectErased.current.clear()
+                    selectionDrag.current = null
+                    setIsTransforming(false)
+                    updatePresence(null, undefined)
                     renderActiveStrokes()
                 }}
                 className='container'
@@ -578,24 +1813,46 @@ export default function App() {
                 <canvas ref={activeCanvasRef} />
             </div>
 
-            {sharingBlob && <SharingModal pngBlob={sharingBlob} onClose={() => setSharingBlob(null)} />}
-        </div>
+            {editingText && (
+                <TextEditor
+                    text={editingText.action}
+                    position={position}
+                    onChange={(text) => setEditingText({ ...editingText, action: { ...editingText.action, text } })}
+                    onDone={finishEditingText}
+                />
+            )}
+
+            {notice && <div className='notice' onClick={() => setNotice(null)}>{notice}</div>}
+
+            {sharingBlob && <SharingModal imageBlob={sharingBlob} history={history} onClose={() => setSharingBlob(null)} />}
+            {isReplaying && <ReplayModal history={frameHistory} layers={layers} onClose={() => setIsReplaying(false)} />}
+            {isShowingKeymap && (
+                <KeymapModal
+                    keymap={keymap}
+                    onRebind={(command, binding) => setKeymapOverrides(rebind(keymap, keymapOverrides, command, binding))}
+                    onReset={() => setKeymapOverrides({})}
+                    onClose={() => setIsShowingKeymap(false)}
+                />
+            )}
+        </>
     )
 }
 
 
 interface ToolbarButtonProps {
+    title?: string
     isActive: boolean
     onActivate: () => void
     Icon: IconType
 }
 
-function ToolbarButton({ isActive, onActivate, Icon }: ToolbarButtonProps) {
+function ToolbarButton({ title, isActive, onActivate, Icon }: ToolbarButtonProps) {
     const [pressedPointers, setPressedPointers] = useState(0)
     const isPressed = pressedPointers > 0
 
     return (
         <button
+            title={title}
             className={`${isActive ? 'active' : ''} ${isPressed ? 'pressed' : ''}`}
             onPointerDown={(event) => {
                 setPressedPointers(pressedPointers + 1)
@@ -629,4 +1886,76 @@ function ToolbarButton({ isActive, onActivate, Icon }: ToolbarButtonProps) {
             <Icon />
         </button>
     )
-}
\ No newline at end of file
+}
+
+
+// The sticker a stroke would place, at the point it started.
+function previewSticker(style: StrokeStyle, point: Point | undefined): StickerAction | null {
+    if (style.brush !== 'sticker' || !point) return null
+    return {
+        id: 'preview',
+        kind: 'sticker',
+        sticker: style.sticker ?? defaultStickerId,
+        x: point.x,
+        y: point.y,
+        scale: style.size / stickerSize,
+        rotation: style.rotation ?? 0,
+    }
+}
+
+function renderInProgress(
+    ctx: CanvasRenderingContext2D,
+    style: StrokeStyle,
+    lines: Point[][],
+    imageCache: Map<string, HTMLImageElement>,
+) {
+    ctx.globalCompositeOperation = 'source-over'
+
+    if (style.brush === 'sticker') {
+        for (const points of lines) {
+            const sticker = previewSticker(style, points[0])
+            if (sticker) renderAction(ctx, sticker, imageCache)
+        }
+        return
+    }
+
+    if (isShapeKind(style.brush)) {
+        ctx.globalAlpha = style.opacity ?? 1
+        for (const points of lines) {
+            const start = points[0]
+            const end = points.at(-1)
+            if (!start || !end) continue
+            renderShape(ctx, {
+                id: 'preview',
+                kind: 'shape',
+                shape: style.brush,
+                x1: start.x,
+                y1: start.y,
+                x2: end.x,
+                y2: end.y,
+                size: style.size,
+            }, style.color ?? defaultColor)
+        }
+        ctx.globalAlpha = 1
+        return
+    }
+
+    if (style.brush === 'eraser') {
+        // For erasing, we draw white on the active layer to simulate looking through to background
+        ctx.fillStyle = 'white'
+        for (const points of lines) renderPath(ctx, pointsToPath(points, style.size))
+        return
+    }
+
+    ctx.fillStyle = style.color ?? defaultColor
+    ctx.globalAlpha = style.opacity ?? 1
+    const preset = getBrushPreset(style.preset)
+    for (const points of lines) renderPath(ctx, pointsToPath(points, style.size, preset))
+    ctx.globalAlpha = 1
+}
+
+function peerColor(participantId: string): string {
+    let hash = 0
+    for (let i = 0; i < participantId.length; i++) hash = (hash * 31 + participantId.charCodeAt(i)) | 0
+    return `oklch(0.65 0.2 ${Math.abs(hash) % 360})`
+}
@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import styles from './BrushPicker.module.css'
+import { brushPresets, type BrushPreset } from './presets'
+import { pathToSvgD, pointsToPath, useDismiss, type Point } from '@/utils'
+
+export interface BrushPickerProps {
+    preset: BrushPreset
+    disabled?: boolean
+    onChange: (preset: BrushPreset) => void
+}
+
+// A squiggle that presses down harder in the middle, to show off how each preset behaves.
+const previewPoints: Point[] = Array.from({ length: 40 }, (_, i) => {
+    const t = i / 39
+    return {
+        x: 8 + t * 104,
+        y: 16 + Math.sin(t * Math.PI * 2) * 8,
+        pressure: 0.2 + Math.sin(t * Math.PI) * 0.8,
+    }
+})
+
+export default function BrushPicker(props: BrushPickerProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    useDismiss(containerRef, isOpen, () => setIsOpen(false))
+
+    useEffect(() => {
+        if (props.disabled) setIsOpen(false)
+    }, [props.disabled])
+
+    const previews = useMemo(() => new Map(brushPresets.map((preset) => (
+        [preset.id, pathToSvgD(pointsToPath(previewPoints, 6, preset))]
+    ))), [])
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button
+                title={`brush: ${props.preset.name}`}
+                className={styles.current}
+                disabled={props.disabled}
+                onClick={() => setIsOpen(!isOpen)}
+            >
+                <svg viewBox='0 0 120 32'>
+                    <path d={previews.get(props.preset.id)} />
+                </svg>
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    {brushPresets.map((preset) => (
+                        <button
+                            key={preset.id}
+                            className={`${styles.option} ${preset.id === props.preset.id ? styles.selected : ''}`}
+                            onClick={() => {
+                                props.onChange(preset)
+                                setIsOpen(false)
+                            }}
+                        >
+                            <svg viewBox='0 0 120 32'>
+                                <path d={previews.get(preset.id)} />
+                            </svg>
+                            <span>{preset.name}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
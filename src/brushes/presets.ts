@@ -0,0 +1,28 @@
+// Named perfect-freehand settings for the pen. Each pen stroke records which preset drew it, so
+// these can be tuned later without old strokes changing, since their outlines are already stored.
+
+export interface BrushPreset {
+    id: string
+    name: string
+    // How much pressure changes the width, from 0 (not at all) to 1.
+    thinning: number
+    smoothing: number
+    streamline: number
+    // How far the start and end of a stroke taper off, as a multiple of the brush size.
+    taperStart: number
+    taperEnd: number
+}
+
+export const brushPresets: BrushPreset[] = [
+    { id: 'fine-liner', name: 'fine liner', thinning: 0.25, smoothing: 0.5, streamline: 0.5, taperStart: 0, taperEnd: 0 },
+    { id: 'marker', name: 'marker', thinning: 0, smoothing: 0.65, streamline: 0.4, taperStart: 0, taperEnd: 0 },
+    { id: 'brush-pen', name: 'brush pen', thinning: 0.7, smoothing: 0.5, streamline: 0.5, taperStart: 4, taperEnd: 8 },
+    { id: 'pencil', name: 'pencil', thinning: 0.4, smoothing: 0.25, streamline: 0.15, taperStart: 1, taperEnd: 1 },
+]
+
+// The fine liner matches how every stroke looked before there were presets.
+export const defaultBrushPreset = brushPresets[0]!
+
+export function getBrushPreset(id: string | undefined): BrushPreset {
+    return brushPresets.find((preset) => preset.id === id) ?? defaultBrushPreset
+}
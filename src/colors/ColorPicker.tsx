@@ -0,0 +1,102 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import styles from './ColorPicker.module.css'
+import { useDismiss } from '@/utils'
+
+export interface ColorPickerProps {
+    color: string
+    opacity: number
+    recentColors: string[]
+    disabled?: boolean
+    onColorChange: (color: string) => void
+    onOpacityChange: (opacity: number) => void
+}
+
+export const palette = [
+    '#000000', '#868e96', '#ffffff', '#e03131', '#f76707', '#f59f00',
+    '#2f9e44', '#1098ad', '#1971c2', '#7048e8', '#c2255c', '#8d5524',
+]
+
+const maxRecentColors = 6
+
+// Moves a color to the front of the recent colors, dropping the oldest if there are too many.
+export function addRecentColor(recentColors: string[], color: string): string[] {
+    const normalized = color.toLowerCase()
+    return [normalized, ...recentColors.filter((recent) => recent !== normalized)].slice(0, maxRecentColors)
+}
+
+export default function ColorPicker(props: ColorPickerProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const customId = useId()
+    const opacityId = useId()
+
+    useDismiss(containerRef, isOpen, () => setIsOpen(false))
+
+    useEffect(() => {
+        if (props.disabled) setIsOpen(false)
+    }, [props.disabled])
+
+    function swatch(color: string) {
+        return (
+            <button
+                key={color}
+                title={color}
+                className={`${styles.swatch} ${color === props.color.toLowerCase() ? styles.selected : ''}`}
+                style={{ backgroundColor: color }}
+                onClick={() => props.onColorChange(color)}
+            />
+        )
+    }
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button
+                title='color'
+                className={styles.current}
+                disabled={props.disabled}
+                onClick={() => setIsOpen(!isOpen)}
+            >
+                <span style={{ backgroundColor: props.color, opacity: props.opacity }} />
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    <div className={styles.swatches}>
+                        {palette.map(swatch)}
+                    </div>
+
+                    {props.recentColors.length > 0 && (
+                        <>
+                            <div className={styles.label}>recent</div>
+                            <div className={styles.swatches}>
+                                {props.recentColors.map(swatch)}
+                            </div>
+                        </>
+                    )}
+
+                    <div className={styles.row}>
+                        <label htmlFor={customId}>custom</label>
+                        <input
+                            type='color'
+                            id={customId}
+                            value={props.color}
+                            onChange={(event) => props.onColorChange(event.target.value)}
+                        />
+                    </div>
+
+                    <div className={styles.row}>
+                        <label htmlFor={opacityId}>opacity</label>
+                        <input
+                            type='range'
+                            id={opacityId}
+                            min={5}
+                            max={100}
+                            value={Math.round(props.opacity * 100)}
+                            onChange={(event) => props.onOpacityChange(parseInt(event.target.value, 10) / 100)}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
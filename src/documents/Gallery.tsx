@@ -0,0 +1,79 @@
+import { useRef, type PointerEvent } from 'react'
+import { FocusTrap } from 'focus-trap-react'
+import { FaClone, FaPlus, FaTrash } from 'react-icons/fa6'
+import styles from './Gallery.module.css'
+import type { Documents } from './documents'
+
+export interface GalleryProps {
+    documents: Documents
+    onClose: () => void
+}
+
+export default function Gallery({ documents, onClose }: GalleryProps) {
+    const modalRef = useRef<HTMLDivElement>(null)
+
+    function onContainerPointerDown(event: PointerEvent) {
+        // If the event chain doesn't contain the modal, then close the modal.
+        if (!modalRef.current?.contains(event.target as Node)) onClose()
+    }
+
+    const sorted = documents.documents.toSorted((a, b) => b.modified - a.modified)
+
+    return (
+        <div className={styles.container} onPointerDown={onContainerPointerDown}>
+            <FocusTrap focusTrapOptions={{ initialFocus: false, escapeDeactivates: false }}>
+                <div ref={modalRef} className={styles.modal} onKeyDown={(event) => {
+                    if (event.key === 'Escape') onClose()
+                }}>
+                    <h2>YOUR DRAWINGS</h2>
+
+                    <div className={styles.grid}>
+                        <button className={styles.new} onClick={() => {
+                            documents.create()
+                            onClose()
+                        }}>
+                            <FaPlus />
+                            <span>new drawing</span>
+                        </button>
+
+                        {sorted.map((document) => (
+                            <div
+                                key={document.id}
+                                className={`${styles.card} ${document.id === documents.current.id ? styles.current : ''}`}
+                            >
+                                <button className={styles.thumbnail} onClick={() => {
+                                    documents.switchTo(document.id)
+                                    onClose()
+                                }}>
+                                    {document.thumbnail && <img src={document.thumbnail} alt='' />}
+                                </button>
+
+                                <input
+                                    type='text'
+                                    value={document.title}
+                                    aria-label='drawing name'
+                                    spellCheck={false}
+                                    onChange={(event) => documents.rename(document.id, event.target.value)}
+                                />
+
+                                <div className={styles.footer}>
+                                    <span className={styles.modified}>
+                                        {new Date(document.modified).toLocaleDateString()}
+                                    </span>
+                                    <button title='duplicate' onClick={() => documents.duplicate(document.id)}>
+                                        <FaClone />
+                                    </button>
+                                    <button title='delete' onClick={() => {
+                                        if (confirm(`delete "${document.title}" forever?`)) documents.remove(document.id)
+                                    }}>
+                                        <FaTrash />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </FocusTrap>
+        </div>
+    )
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react'
+import { nanoid } from 'nanoid'
+import type { Action, CanvasPosition } from '../utils'
+import type { Layer } from '../layers/layers'
+import type { Frame } from '../frames/frames'
+import { copyStoredHistory, deleteStoredHistory, replaceStoredHistory } from './storage'
+
+export interface DocumentInfo {
+    id: string
+    title: string
+    created: number
+    modified: number
+    // Small PNG data URL for the gallery, or null until the first one is made.
+    thumbnail: string | null
+}
+
+export interface NewDocument {
+    title?: string
+    created?: number
+    modified?: number
+    position?: CanvasPosition
+    layers?: Layer[]
+    frames?: Frame[]
+    history?: Action[]
+    // Data URLs of the images the history uses, by id.
+    images?: Record<string, string>
+}
+
+export interface Documents {
+    documents: DocumentInfo[]
+    current: DocumentInfo
+    create(initial?: NewDocument): void
+    rename(id: string, title: string): void
+    duplicate(id: string): void
+    remove(id: string): void
+    switchTo(id: string): void
+    update(id: string, patch: Partial<Omit<DocumentInfo, 'id'>>): void
+}
+
+// The list of documents, their viewports, layers and frames are small, so they're in localStorage.
+// Histories are in IndexedDB, see `storage.ts`.
+export const positionKey = (id: string) => `position:${id}`
+export const layersKey = (id: string) => `layers:${id}`
+export const framesKey = (id: string) => `frames:${id}`
+
+function reportStorageError(error: unknown) {
+    console.error('Failed to update stored history', error)
+}
+
+function createInfo(initial: NewDocument = {}): DocumentInfo {
+    const id = nanoid()
+    localStorage.setItem(positionKey(id), JSON.stringify(initial.position ?? { x: 0, y: 0, zoom: 1 }))
+    // Without any, the editor starts with the default layer and frame
+    if (initial.layers) localStorage.setItem(layersKey(id), JSON.stringify(initial.layers))
+    if (initial.frames) localStorage.setItem(framesKey(id), JSON.stringify(initial.frames))
+    if (initial.history?.length) replaceStoredHistory(id, initial.history, initial.images).catch(reportStorageError)
+    return {
+        id,
+        title: initial.title ?? 'untitled',
+        created: initial.created ?? Date.now(),
+        modified: initial.modified ?? Date.now(),
+        thumbnail: null,
+    }
+}
+
+// Before there were documents there was a single drawing under `history`, `position` and
+// `document-info`. It becomes the first document, and its history is moved over when it's loaded.
+function migrateSingleDrawing(): DocumentInfo {
+    let info = {}
+    let position: CanvasPosition | undefined
+    try {
+        info = JSON.parse(localStorage.getItem('document-info') ?? '{}')
+        position = JSON.parse(localStorage.getItem('position') ?? 'null') ?? undefined
+    } catch (error) {
+        console.error('Corrupt drawing info in localStorage', error)
+    }
+
+    const document = createInfo({ ...info, position })
+    if (localStorage.getItem('history') !== null) localStorage.setItem('history-owner', document.id)
+
+    localStorage.removeItem('position')
+    localStorage.removeItem('document-info')
+    return document
+}
+
+function loadDocuments(): DocumentInfo[] {
+    try {
+        const documents: DocumentInfo[] = JSON.parse(localStorage.getItem('documents') ?? '[]')
+        if (documents.length > 0) return documents
+    } catch (error) {
+        console.error('Corrupt document list in localStorage', error)
+    }
+    // Saved right away so running this twice can't migrate twice
+    const documents = [migrateSingleDrawing()]
+    localStorage.setItem('documents', JSON.stringify(documents))
+    return documents
+}
+
+export function useDocuments(): Documents {
+    const [documents, setDocuments] = useState(loadDocuments)
+    const [currentId, setCurrentId] = useState(() => localStorage.getItem('current-document'))
+
+    useEffect(() => {
+        localStorage.setItem('documents', JSON.stringify(documents))
+    }, [documents])
+
+    // Falls back to the most recently modified document if the last one opened is gone
+    const current = documents.find((document) => document.id === currentId)
+        ?? documents.reduce((a, b) => (b.modified > a.modified ? b : a))
+
+    useEffect(() => {
+        localStorage.setItem('current-document', current.id)
+    }, [current.id])
+
+    return {
+        documents,
+        current,
+        create(initial) {
+            const document = createInfo(initial)
+            setDocuments((documents) => [...documents, document])
+            setCurrentId(document.id)
+        },
+        rename(id, title) {
+            setDocuments((documents) => documents.map((document) => (
+                document.id === id ? { ...document, title } : document
+            )))
+        },
+        duplicate(id) {
+            const original = documents.find((document) => document.id === id)
+            if (!original) return
+
+            const copy = { ...createInfo({ title: `${original.title} copy` }), thumbnail: original.thumbnail }
+            for (const key of [positionKey, layersKey, framesKey]) {
+                const value = localStorage.getItem(key(id))
+                if (value !== null) localStorage.setItem(key(copy.id), value)
+            }
+            copyStoredHistory(id, copy.id).catch(reportStorageError)
+            setDocuments((documents) => [...documents, copy])
+        },
+        remove(id) {
+            localStorage.removeItem(positionKey(id))
+            localStorage.removeItem(layersKey(id))
+            localStorage.removeItem(framesKey(id))
+            deleteStoredHistory(id).catch(reportStorageError)
+
+            // There's always at least one document to draw in
+            const remaining = documents.filter((document) => document.id !== id)
+            setDocuments(remaining.length > 0 ? remaining : [createInfo()])
+        },
+        switchTo(id) {
+            setCurrentId(id)
+        },
+        update(id, patch) {
+            setDocuments((documents) => documents.map((document) => (
+                document.id === id ? { ...document, ...patch } : document
+            )))
+        },
+    }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test'
+import { parseLegacyHistory } from './storage'
+import type { Action } from '../utils'
+
+describe('parseLegacyHistory', () => {
+    test('keeps good actions and drops the rest', () => {
+        const pen: Action = { id: 'a', kind: 'pen', path: [[0, 0], [1, 1]] }
+        const result = parseLegacyHistory([
+            null,
+            pen,
+            { kind: 'pen', path: [[0, 0]] },
+            { id: 'b', kind: 'pen', path: 'not a path' },
+            { id: 'c', kind: 'nonsense' },
+            42,
+        ])
+        expect(result.actions).toEqual([pen])
+        expect(result.discarded).toBe(5)
+    })
+
+    test('turns old kitties into stickers', () => {
+        const result = parseLegacyHistory([{ id: 'k', kind: 'kitty', x: 1, y: 2 }])
+        expect(result.actions).toEqual([{ id: 'k', kind: 'sticker', sticker: 'kitty', x: 1, y: 2, scale: 1, rotation: 0 }])
+        expect(result.discarded).toBe(0)
+    })
+})
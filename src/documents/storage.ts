@@ -0,0 +1,487 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { z } from 'zod'
+import { actionSchema, framesSchema, layersSchema, upgradeKitty } from '../jetchFile'
+import { blobToDataUrl, type Action } from '../utils'
+import { registerImage } from '../images/images'
+import type { Operation } from '../history/operations'
+
+// Document histories live in IndexedDB, one record per action, so a new stroke is one small
+// write instead of re-serializing the whole drawing. Snapshot images are stored as Blobs and only
+// turned back into data URLs when loaded. Pasted images are in a store of their own, also as Blobs,
+// since image actions only refer to them by id. Undo and redo steps are one record each too, so
+// they're still there after reloading without rewriting all of them after every stroke.
+
+interface ActionRecord {
+    documentId: string
+    id: string
+    // Sorts records into history order. Fractional so actions can be slotted in between others.
+    order: number
+    action: Action
+    image?: Blob
+}
+
+interface ImageRecord {
+    documentId: string
+    id: string
+    image: Blob
+}
+
+export interface StoredOperations {
+    // Oldest first, so the next one to undo is last.
+    undo: Operation[]
+    // The next one to redo is first.
+    redo: Operation[]
+}
+
+interface OperationRecord {
+    documentId: string
+    // Goes up with each new step, so the oldest ones are the first to be trimmed.
+    index: number
+    // Whether it's on the redo stack.
+    undone: boolean
+    operation: Operation
+}
+
+// Only this many steps each way are kept, so a long session doesn't keep growing the store.
+const maxStoredOperations = 100
+
+// Where each step has been stored, so only new ones and ones moved between stacks get written.
+const operationSlots = new WeakMap<Operation, Omit<OperationRecord, 'operation'>>()
+
+const operationSchema = z.object({
+    before: z.array(actionSchema),
+    after: z.array(actionSchema),
+    layers: z.object({ before: layersSchema, after: layersSchema }).optional(),
+    frames: z.object({ before: framesSchema, after: framesSchema }).optional(),
+})
+
+const databaseName = 'jetch'
+const actionStore = 'actions'
+const imageStore = 'images'
+const operationStore = 'operations'
+const byDocument = 'by-document'
+
+let database: Promise<IDBDatabase> | null = null
+
+// Every read and write runs one after another, so a document is never loaded halfway through
+// being written and a later change can never land before an earlier one.
+let queue: Promise<unknown> = Promise.resolve()
+
+function enqueue<Type>(task: () => Promise<Type>): Promise<Type> {
+    const result = queue.then(task)
+    queue = result.catch(() => {})
+    return result
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1)
+        request.onupgradeneeded = () => {
+            const db = request.result
+            db.createObjectStore(actionStore, { keyPath: ['documentId', 'id'] }).createIndex(byDocument, 'documentId')
+            db.createObjectStore(imageStore, { keyPath: ['documentId', 'id'] }).createIndex(byDocument, 'documentId')
+            db.createObjectStore(operationStore, { keyPath: ['documentId', 'index'] }).createIndex(byDocument, 'documentId')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+            database = null
+            reject(request.error)
+        }
+    })
+    return database
+}
+
+function requestToPromise<Type>(request: IDBRequest<Type>): Promise<Type> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'))
+    })
+}
+
+export function isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException
+        && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
+async function toRecord(documentId: string, action: Action, order: number): Promise<ActionRecord> {
+    if (action.kind === 'snapshot' && action.dataUrl) {
+        const image = await (await fetch(action.dataUrl)).blob()
+        return { documentId, id: action.id, order, action: { ...action, dataUrl: '' }, image }
+    }
+    return { documentId, id: action.id, order, action }
+}
+
+async function fromRecord(record: ActionRecord): Promise<Action> {
+    if (record.image && record.action?.kind === 'snapshot') {
+        return { ...record.action, dataUrl: await blobToDataUrl(record.image) }
+    }
+    return record.action
+}
+
+async function deleteDocumentRecords(store: IDBObjectStore, documentId: string) {
+    const keys = await requestToPromise(store.index(byDocument).getAllKeys(documentId))
+    for (const key of keys) store.delete(key)
+}
+
+// Writes the given changes in one transaction. With `replace`, everything else stored for the
+// document is dropped first.
+async function writeChanges(documentId: string, puts: ActionRecord[], deletes: string[], replace: boolean) {
+    const db = await openDatabase()
+    const transaction = db.transaction(actionStore, 'readwrite')
+    const done = transactionToPromise(transaction)
+    const store = transaction.objectStore(actionStore)
+
+    if (replace) await deleteDocumentRecords(store, documentId)
+    for (const id of deletes) store.delete([documentId, id])
+    for (const record of puts) store.put(record)
+
+    await done
+}
+
+// Images never change, so they only ever get added, unless `replace` drops everything else first.
+async function writeImages(documentId: string, records: ImageRecord[], replace: boolean) {
+    const db = await openDatabase()
+    const transaction = db.transaction(imageStore, 'readwrite')
+    const done = transactionToPromise(transaction)
+    const store = transaction.objectStore(imageStore)
+
+    if (replace) await deleteDocumentRecords(store, documentId)
+    for (const record of records) store.put(record)
+
+    await done
+}
+
+async function toImageRecords(documentId: string, images: Record<string, string>): Promise<ImageRecord[]> {
+    return Promise.all(Object.entries(images).map(async ([id, dataUrl]) => (
+        { documentId, id, image: await (await fetch(dataUrl)).blob() }
+    )))
+}
+
+async function replaceRecords(documentId: string, actions: Action[], images: Record<string, string> = {}) {
+    const records = await Promise.all(actions.map((action, i) => toRecord(documentId, action, i)))
+    await writeChanges(documentId, records, [], true)
+    await writeImages(documentId, await toImageRecords(documentId, images), true)
+}
+
+export function replaceStoredHistory(documentId: string, actions: Action[], images?: Record<string, string>): Promise<void> {
+    return enqueue(() => replaceRecords(documentId, actions, images))
+}
+
+export function storeImages(documentId: string, images: Record<string, string>): Promise<void> {
+    return enqueue(async () => writeImages(documentId, await toImageRecords(documentId, images), false))
+}
+
+export function copyStoredHistory(fromDocumentId: string, toDocumentId: string): Promise<void> {
+    return enqueue(async () => {
+        const db = await openDatabase()
+        const records: ActionRecord[] = await requestToPromise(
+            db.transaction(actionStore).objectStore(actionStore).index(byDocument).getAll(fromDocumentId),
+        )
+        const images: ImageRecord[] = await requestToPromise(
+            db.transaction(imageStore).objectStore(imageStore).index(byDocument).getAll(fromDocumentId),
+        )
+        const operations: OperationRecord[] = await requestToPromise(
+            db.transaction(operationStore).objectStore(operationStore).index(byDocument).getAll(fromDocumentId),
+        )
+        await writeChanges(toDocumentId, records.map((record) => ({ ...record, documentId: toDocumentId })), [], true)
+        await writeImages(toDocumentId, images.map((record) => ({ ...record, documentId: toDocumentId })), true)
+        await copyOperations(toDocumentId, operations)
+    })
+}
+
+export function deleteStoredHistory(documentId: string): Promise<void> {
+    return enqueue(async () => {
+        const db = await openDatabase()
+        const transaction = db.transaction([actionStore, imageStore, operationStore], 'readwrite')
+        const done = transactionToPromise(transaction)
+        await deleteDocumentRecords(transaction.objectStore(actionStore), documentId)
+        await deleteDocumentRecords(transaction.objectStore(imageStore), documentId)
+        await deleteDocumentRecords(transaction.objectStore(operationStore), documentId)
+        await done
+    })
+}
+
+async function copyOperations(documentId: string, records: OperationRecord[]) {
+    const db = await openDatabase()
+    const transaction = db.transaction(operationStore, 'readwrite')
+    const done = transactionToPromise(transaction)
+    const store = transaction.objectStore(operationStore)
+    await deleteDocumentRecords(store, documentId)
+    for (const record of records) store.put({ ...record, documentId })
+    await done
+}
+
+// Steps keep their index as long as they stay in order, so usually this only writes the step that
+// was just done, undone or redone, and deletes whatever fell off the end.
+async function writeOperations(documentId: string, operations: StoredOperations) {
+    const steps = [
+        ...operations.undo.slice(-maxStoredOperations).map((operation) => ({ operation, undone: false })),
+        ...operations.redo.slice(0, maxStoredOperations).map((operation) => ({ operation, undone: true })),
+    ]
+
+    const db = await openDatabase()
+    const transaction = db.transaction(operationStore, 'readwrite')
+    const done = transactionToPromise(transaction)
+    const store = transaction.objectStore(operationStore)
+
+    const keys = await requestToPromise(store.index(byDocument).getAllKeys(documentId)) as [string, number][]
+    const unused = new Set(keys.map(([, index]) => index))
+    let next = Math.max(-1, ...unused) + 1
+    let last = -1
+    const slots = new Map<Operation, Omit<OperationRecord, 'operation'>>()
+    for (const { operation, undone } of steps) {
+        const slot = operationSlots.get(operation)
+        const isKept = slot?.documentId === documentId && slot.index > last && unused.has(slot.index)
+        const index = isKept ? slot.index : next++
+        if (!isKept || slot.undone !== undone) store.put({ documentId, index, undone, operation })
+        unused.delete(index)
+        slots.set(operation, { documentId, index, undone })
+        last = index
+    }
+    for (const index of unused) store.delete([documentId, index])
+
+    await done
+    for (const [operation, slot] of slots) operationSlots.set(operation, slot)
+}
+
+export function storeOperations(documentId: string, operations: StoredOperations): Promise<void> {
+    return enqueue(() => writeOperations(documentId, operations))
+}
+
+// Steps that don't make sense anymore are dropped, the same as ones that can't be undone.
+export function loadStoredOperations(documentId: string): Promise<StoredOperations> {
+    return enqueue(async () => {
+        const db = await openDatabase()
+        const records: OperationRecord[] = await requestToPromise(
+            db.transaction(operationStore).objectStore(operationStore).index(byDocument).getAll(documentId),
+        )
+        records.sort((a, b) => a.index - b.index)
+
+        const stored: StoredOperations = { undo: [], redo: [] }
+        for (const record of records) {
+            const result = operationSchema.safeParse(record.operation)
+            if (!result.success) continue
+            operationSlots.set(result.data, { documentId, index: record.index, undone: record.undone })
+            if (record.undone) stored.redo.push(result.data)
+            else stored.undo.push(result.data)
+        }
+        return stored
+    })
+}
+
+// Before IndexedDB each document's history was a JSON string in localStorage. The first document
+// may also have taken over the `history` key from before there were documents at all.
+function legacyHistoryKeys(documentId: string): string[] {
+    const keys = [`history:${documentId}`]
+    if (localStorage.getItem('history-owner') === documentId) keys.push('history')
+    return keys
+}
+
+// Only the actions that still make sense are kept, so one bad entry doesn't stop the rest from
+// making it over.
+export function parseLegacyHistory(entries: unknown[]): { actions: Action[], discarded: number } {
+    const actions: Action[] = []
+    for (const entry of entries) {
+        const result = actionSchema.safeParse(upgradeKitty(entry))
+        if (result.success) actions.push(result.data)
+    }
+    return { actions, discarded: entries.length - actions.length }
+}
+
+// Returns how many actions were unreadable and got thrown away.
+async function migrateFromLocalStorage(documentId: string): Promise<number> {
+    const keys = legacyHistoryKeys(documentId).filter((key) => localStorage.getItem(key) !== null)
+    if (keys.length === 0) return 0
+
+    let actions: unknown[] = []
+    for (const key of keys) {
+        try {
+            const parsed = JSON.parse(localStorage.getItem(key)!)
+            if (Array.isArray(parsed)) actions = parsed
+        } catch (error) {
+            console.error(`Corrupt history in localStorage under ${key}`, error)
+        }
+    }
+
+    const { actions: parsed, discarded } = parseLegacyHistory(actions)
+    if (discarded > 0) console.error(`Discarding ${discarded} corrupt actions from localStorage for document ${documentId}`)
+    await replaceRecords(documentId, parsed)
+    for (const key of keys) localStorage.removeItem(key)
+    localStorage.removeItem('history-owner')
+    return discarded
+}
+
+export interface LoadedHistory {
+    actions: Action[]
+    orders: Map<string, number>
+    // How many records were unreadable and got thrown away.
+    discarded: number
+}
+
+export function loadStoredHistory(documentId: string): Promise<LoadedHistory> {
+    return enqueue(() => loadRecords(documentId))
+}
+
+async function loadRecords(documentId: string): Promise<LoadedHistory> {
+    const discardedLegacy = await migrateFromLocalStorage(documentId)
+
+    const db = await openDatabase()
+    const records: ActionRecord[] = await requestToPromise(
+        db.transaction(actionStore).objectStore(actionStore).index(byDocument).getAll(documentId),
+    )
+    records.sort((a, b) => a.order - b.order)
+
+    // Images go first, so they're there for the actions that use them
+    const images: ImageRecord[] = await requestToPromise(
+        db.transaction(imageStore).objectStore(imageStore).index(byDocument).getAll(documentId),
+    )
+    for (const record of images) {
+        const dataUrl = await blobToDataUrl(record.image).catch(() => null)
+        if (dataUrl) registerImage(record.id, dataUrl)
+    }
+
+    const actions: Action[] = []
+    const orders = new Map<string, number>()
+    const corrupt: string[] = []
+    for (const record of records) {
+        const result = actionSchema.safeParse(upgradeKitty(await fromRecord(record).catch(() => null)))
+        if (result.success && typeof record.order === 'number') {
+            actions.push(result.data)
+            orders.set(record.id, record.order)
+        } else {
+            corrupt.push(record.id)
+        }
+    }
+
+    if (corrupt.length > 0) {
+        console.error(`Discarding ${corrupt.length} corrupt actions from document ${documentId}`)
+        await writeChanges(documentId, [], corrupt, false)
+    }
+
+    return { actions, orders, discarded: discardedLegacy + corrupt.length }
+}
+
+// Gives every action an order that sorts it into place, reusing stored orders where they still
+// fit so that usually only new actions need writing.
+function assignOrders(history: Action[], previous: Map<string, number>): Map<string, number> {
+    const orders = new Map<string, number>()
+    let last = -Infinity
+
+    for (let i = 0; i < history.length; i++) {
+        const id = history[i]!.id
+        const existing = previous.get(id)
+        if (existing !== undefined && existing > last) {
+            orders.set(id, existing)
+            last = existing
+            continue
+        }
+
+        // Fit in before the next action that gets to keep its order
+        let upper = Infinity
+        for (let j = i + 1; j < history.length; j++) {
+            const order = previous.get(history[j]!.id)
+            if (order !== undefined && order > last) {
+                upper = order
+                break
+            }
+        }
+
+        let order: number
+        if (upper === Infinity) {
+            order = last === -Infinity ? 0 : last + 1
+        } else {
+            order = last === -Infinity ? upper - 1 : (last + upper) / 2
+        }
+        orders.set(id, order)
+        last = order
+    }
+
+    return orders
+}
+
+// Like `useState`, but backed by a document's stored history. The state starts out empty until
+// `isLoaded`, and nothing is written before then. Without a document id it's memory-only.
+export function useStoredHistory(
+    documentId: string | null,
+    onError: (message: string) => void,
+): [Action[], Dispatch<SetStateAction<Action[]>>, boolean] {
+    const [history, setHistory] = useState<Action[]>([])
+    const [isLoaded, setIsLoaded] = useState(documentId === null)
+
+    // What's been handed to IndexedDB so far, to work out what changed
+    const stored = useRef<{ orders: Map<string, number>, actions: Map<string, Action> } | null>(null)
+    const needsReplace = useRef(false)
+
+    const latestOnError = useRef(onError)
+    latestOnError.current = onError
+
+    useEffect(() => {
+        if (!documentId) return
+        let cancelled = false
+
+        loadStoredHistory(documentId).then((loaded) => {
+            if (cancelled) return
+            stored.current = {
+                orders: loaded.orders,
+                actions: new Map(loaded.actions.map((action) => [action.id, action])),
+            }
+            setHistory(loaded.actions)
+            setIsLoaded(true)
+            if (loaded.discarded > 0) {
+                latestOnError.current('some of this drawing was corrupted and couldn\'t be loaded, sorry :(')
+            }
+        }, (error) => {
+            console.error(error)
+            if (cancelled) return
+            // Start fresh rather than leave the drawing unusable, but don't clobber what's stored
+            stored.current = null
+            setIsLoaded(true)
+            latestOnError.current('couldn\'t load this drawing, so changes won\'t be saved :(')
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [documentId])
+
+    useEffect(() => {
+        const previous = stored.current
+        if (!documentId || !previous) return
+
+        const orders = assignOrders(history, previous.orders)
+        const actions = new Map(history.map((action) => [action.id, action]))
+        const replace = needsReplace.current
+        const changed = history.filter((action) => replace
+            || previous.orders.get(action.id) !== orders.get(action.id)
+            || previous.actions.get(action.id) !== action)
+        const deleted = replace ? [] : [...previous.orders.keys()].filter((id) => !orders.has(id))
+        if (changed.length === 0 && deleted.length === 0) return
+
+        stored.current = { orders, actions }
+        needsReplace.current = false
+
+        enqueue(async () => {
+            try {
+                const records = await Promise.all(changed.map((action) => toRecord(documentId, action, orders.get(action.id)!)))
+                await writeChanges(documentId, records, deleted, replace)
+            } catch (error) {
+                console.error(error)
+                // We don't know what made it in, so the next change rewrites everything
+                needsReplace.current = true
+                latestOnError.current(isQuotaError(error)
+                    ? 'your browser is out of storage space, so your latest changes aren\'t saved. try deleting some old drawings!'
+                    : 'couldn\'t save your latest changes :(')
+            }
+        })
+    }, [history, documentId])
+
+    return [history, setHistory, isLoaded]
+}
@@ -0,0 +1,121 @@
+import { useId, useRef, useState } from 'react'
+import { FaArrowLeft, FaArrowRight, FaClapperboard, FaCopy, FaPause, FaPlay, FaPlus, FaTrash } from 'react-icons/fa6'
+import styles from './FramesPanel.module.css'
+import { maxFps, maxFrames, minFps, moveFrame, type Frame } from './frames'
+import { useDismiss } from '@/utils'
+
+export interface FramesPanelProps {
+    frames: Frame[]
+    activeFrameId: string
+    isPlaying: boolean
+    fps: number
+    showOnionSkin: boolean
+    onActivate: (id: string) => void
+    onChange: (frames: Frame[]) => void
+    onAdd: () => void
+    onDuplicate: () => void
+    onDelete: (id: string) => void
+    onPlayingChange: (isPlaying: boolean) => void
+    onFpsChange: (fps: number) => void
+    onOnionSkinChange: (showOnionSkin: boolean) => void
+}
+
+export default function FramesPanel(props: FramesPanelProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const fpsId = useId()
+    const onionSkinId = useId()
+
+    useDismiss(containerRef, isOpen, () => setIsOpen(false))
+
+    const index = props.frames.findIndex((frame) => frame.id === props.activeFrameId)
+    const isFull = props.frames.length >= maxFrames
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button
+                title={`frames: ${index + 1} of ${props.frames.length}`}
+                className={props.frames.length > 1 ? styles.counter : undefined}
+                onClick={() => setIsOpen(!isOpen)}
+            >
+                <FaClapperboard />
+                {props.frames.length > 1 && <span>{index + 1}</span>}
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    <div className={styles.strip}>
+                        {props.frames.map((frame, i) => (
+                            <button
+                                key={frame.id}
+                                className={i === index ? styles.active : ''}
+                                onClick={() => props.onActivate(frame.id)}
+                            >
+                                {i + 1}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className={styles.row}>
+                        <button
+                            title={props.isPlaying ? 'stop' : 'play'}
+                            disabled={props.frames.length === 1}
+                            onClick={() => props.onPlayingChange(!props.isPlaying)}
+                        >
+                            {props.isPlaying ? <FaPause /> : <FaPlay />}
+                        </button>
+                        <label htmlFor={fpsId}>{props.fps} fps</label>
+                        <input
+                            type='range'
+                            id={fpsId}
+                            min={minFps}
+                            max={maxFps}
+                            value={props.fps}
+                            onChange={(event) => props.onFpsChange(parseInt(event.target.value, 10))}
+                        />
+                    </div>
+
+                    <div className={styles.row}>
+                        <label htmlFor={onionSkinId}>show the frames either side</label>
+                        <input
+                            type='checkbox'
+                            id={onionSkinId}
+                            checked={props.showOnionSkin}
+                            onChange={(event) => props.onOnionSkinChange(event.target.checked)}
+                        />
+                    </div>
+
+                    <div className={styles.actions}>
+                        <button title='new frame' disabled={isFull} onClick={props.onAdd}>
+                            <FaPlus />
+                        </button>
+                        <button title='duplicate frame' disabled={isFull} onClick={props.onDuplicate}>
+                            <FaCopy />
+                        </button>
+                        <button
+                            title='move earlier'
+                            disabled={index === 0}
+                            onClick={() => props.onChange(moveFrame(props.frames, props.activeFrameId, -1))}
+                        >
+                            <FaArrowLeft />
+                        </button>
+                        <button
+                            title='move later'
+                            disabled={index === props.frames.length - 1}
+                            onClick={() => props.onChange(moveFrame(props.frames, props.activeFrameId, 1))}
+                        >
+                            <FaArrowRight />
+                        </button>
+                        <button
+                            title='delete frame'
+                            disabled={props.frames.length === 1}
+                            onClick={() => props.onDelete(props.activeFrameId)}
+                        >
+                            <FaTrash />
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
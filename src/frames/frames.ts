@@ -0,0 +1,43 @@
+import { nanoid } from 'nanoid'
+import type { Action } from '../utils'
+
+// Every action belongs to a frame by id, the same as with layers. Only the frame being drawn on
+// is shown, so a drawing with more than one frame is a flipbook that plays them in order.
+
+export interface Frame {
+    id: string
+}
+
+export const maxFrames = 100
+
+// Like `defaultLayers`.
+export const defaultFrames: Frame[] = [{ id: 'first' }]
+
+// Frames per second when playing, which is also what animated GIFs are exported at.
+export const minFps = 1
+export const maxFps = 24
+export const defaultFps = 8
+
+export function createFrame(): Frame {
+    return { id: nanoid() }
+}
+
+// Works like `getLayerId`, with missing frames falling back to the first one.
+export function getFrameId(action: Action, frames: Frame[]): string {
+    const id = action.frame ?? defaultFrames[0]!.id
+    return frames.some((frame) => frame.id === id) ? id : frames[0]!.id
+}
+
+export function getFrameActions(history: Action[], frames: Frame[], frameId: string): Action[] {
+    return history.filter((action) => getFrameId(action, frames) === frameId)
+}
+
+// Moves a frame later or earlier by one.
+export function moveFrame(frames: Frame[], id: string, direction: 1 | -1): Frame[] {
+    const index = frames.findIndex((frame) => frame.id === id)
+    const target = index + direction
+    if (index === -1 || target < 0 || target >= frames.length) return frames
+    const moved = frames.toSpliced(index, 1)
+    moved.splice(target, 0, frames[index]!)
+    return moved
+}
@@ -0,0 +1,66 @@
+import type { Action, CanvasPosition } from '../utils'
+import { groupByLayer, type Layer } from '../layers/layers'
+import type { Frame } from './frames'
+import type { TileCache } from '../tiles/tiles'
+
+// The frames either side of the one being drawn on show through faintly, each in a color of its
+// own so it's clear which is which.
+
+export const onionSkinColors = { previous: '#e03131', next: '#1c7ed6' }
+const onionSkinOpacity = 0.25
+
+// Reused between frames, since it's the size of the screen.
+let frameCanvas: OffscreenCanvas | null = null
+
+function getScratch(canvas: OffscreenCanvas | null, width: number, height: number): OffscreenCanvas {
+    if (!canvas) return new OffscreenCanvas(width, height)
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width
+        canvas.height = height
+    }
+    return canvas
+}
+
+// The frames either side get their layers tiled under ids of their own, so panning and zooming
+// doesn't draw them all over again.
+export function getOnionSkinLayerId(frame: Frame, layer: Layer): string {
+    return `onion-skin/${frame.id}/${layer.id}`
+}
+
+// Draws a frame's actions as a silhouette in `color` onto a context the size of the screen.
+export function renderOnionSkin(
+    ctx: CanvasRenderingContext2D,
+    frame: Frame,
+    actions: Action[],
+    layers: Layer[],
+    tileCache: TileCache,
+    position: CanvasPosition,
+    dpr: number,
+    color: string,
+) {
+    const { width, height } = ctx.canvas
+    frameCanvas = getScratch(frameCanvas, width, height)
+    const frameCtx = frameCanvas.getContext('2d')!
+    frameCtx.setTransform(1, 0, 0, 1, 0, 0)
+    frameCtx.globalCompositeOperation = 'source-over'
+    frameCtx.clearRect(0, 0, width, height)
+
+    // Layer by layer, the same as the canvas
+    const groups = groupByLayer(actions, layers)
+    for (const layer of layers) {
+        const layerId = getOnionSkinLayerId(frame, layer)
+        tileCache.update(layerId, groups.get(layer.id)!)
+        if (layer.visible) tileCache.draw(frameCtx, layerId, position, dpr, layer.opacity)
+    }
+
+    frameCtx.globalCompositeOperation = 'source-in'
+    frameCtx.fillStyle = color
+    frameCtx.fillRect(0, 0, width, height)
+
+    ctx.save()
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.globalAlpha = onionSkinOpacity
+    ctx.globalCompositeOperation = 'source-over'
+    ctx.drawImage(frameCanvas, 0, 0)
+    ctx.restore()
+}
@@ -0,0 +1,169 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { FaClockRotateLeft } from 'react-icons/fa6'
+import styles from './HistoryTimeline.module.css'
+import { describeOperation, type HistoryState, type Operation } from './operations'
+import { createThumbnail } from '../rendering/renderer'
+import { getFrameActions, type Frame } from '../frames/frames'
+import { useDismiss } from '@/utils'
+
+export interface HistoryTimelineProps {
+    // Oldest first, so the latest one done is last.
+    undo: Operation[]
+    // The next one to redo is first.
+    redo: Operation[]
+    // Changes whenever the undo or redo stack does.
+    version: number
+    // The drawing with the undo stack `index` long.
+    getState: (index: number) => HistoryState
+    onPreview: (state: HistoryState | null) => void
+    onJump: (index: number) => void
+    // Thumbnails only show the frame being drawn on, like the canvas does.
+    frames: Frame[]
+    activeFrameId: string
+}
+
+// In pixels.
+const thumbnailSize = 64
+
+// Steps are keyed by the operation that led to them, so undoing, redoing and drawing more don't
+// redraw the thumbnails of the ones already there.
+const operationKeys = new WeakMap<Operation, number>()
+let nextOperationKey = 0
+
+function getStepKey(operation: Operation | undefined): string {
+    if (!operation) return 'start'
+    let key = operationKeys.get(operation)
+    if (key === undefined) {
+        key = nextOperationKey++
+        operationKeys.set(operation, key)
+    }
+    return key.toString()
+}
+
+export default function HistoryTimeline(props: HistoryTimelineProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    // The step being looked at, when it isn't the current one
+    const [previewIndex, setPreviewIndex] = useState<number | null>(null)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const listRef = useRef<HTMLDivElement>(null)
+    const scrubberId = useId()
+
+    const current = props.undo.length
+    const operations = [...props.undo, ...props.redo]
+    const steps = ['start', ...operations.map(describeOperation)]
+    const shown = previewIndex ?? current
+
+    function preview(index: number | null) {
+        const isCurrent = index === null || index === current
+        setPreviewIndex(isCurrent ? null : index)
+        props.onPreview(isCurrent ? null : props.getState(index))
+    }
+
+    function close() {
+        setIsOpen(false)
+        preview(null)
+    }
+
+    useDismiss(containerRef, isOpen, close)
+
+    // Undoing or drawing something meanwhile moves the steps around
+    useEffect(() => {
+        if (previewIndex !== null) preview(null)
+    }, [props.version])
+
+    useEffect(() => {
+        if (isOpen) listRef.current?.querySelector(`.${styles.active}`)?.scrollIntoView({ block: 'nearest' })
+    }, [isOpen])
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button title='history' onClick={() => isOpen ? close() : setIsOpen(true)}>
+                <FaClockRotateLeft />
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    <div ref={listRef} className={styles.list}>
+                        {steps.map((label, index) => (
+                            <div
+                                key={getStepKey(operations[index - 1])}
+                                className={`${styles.step} ${index === shown ? styles.active : ''} ${index > current ? styles.ahead : ''}`}
+                                onClick={() => preview(index)}
+                            >
+                                <StepThumbnail
+                                    getState={() => props.getState(index)}
+                                    frames={props.frames}
+                                    activeFrameId={props.activeFrameId}
+                                />
+                                <span>{label}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className={styles.row}>
+                        <label htmlFor={scrubberId}>scrub</label>
+                        <input
+                            type='range'
+                            id={scrubberId}
+                            min={0}
+                            max={steps.length - 1}
+                            value={shown}
+                            onChange={(event) => preview(parseInt(event.target.value, 10))}
+                        />
+                    </div>
+
+                    <button
+                        className={styles.jump}
+                        title='anything you draw from here replaces the steps after it'
+                        disabled={previewIndex === null}
+                        onClick={() => {
+                            if (previewIndex === null) return
+                            props.onJump(previewIndex)
+                            setPreviewIndex(null)
+                            props.onPreview(null)
+                        }}
+                    >
+                        go back here
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Only drawn once it's been scrolled to, since every step is a whole drawing.
+function StepThumbnail({ getState, frames, activeFrameId }: {
+    getState: () => HistoryState
+    frames: Frame[]
+    activeFrameId: string
+}) {
+    const ref = useRef<HTMLDivElement>(null)
+    const [isVisible, setIsVisible] = useState(false)
+    const [thumbnail, setThumbnail] = useState<string | null>(null)
+
+    useEffect(() => {
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) setIsVisible(true)
+        })
+        observer.observe(ref.current!)
+        return () => observer.disconnect()
+    }, [])
+
+    useEffect(() => {
+        if (!isVisible) return
+        const controller = new AbortController()
+        const { history, layers } = getState()
+        createThumbnail(getFrameActions(history, frames, activeFrameId), layers, thumbnailSize, { signal: controller.signal })
+            .then(setThumbnail)
+            .catch((error) => {
+                if (!controller.signal.aborted) console.error(error)
+            })
+        return () => controller.abort()
+    }, [isVisible, frames, activeFrameId])
+
+    return (
+        <div ref={ref} className={styles.thumbnail}>
+            {thumbnail && <img src={thumbnail} alt='' />}
+        </div>
+    )
+}
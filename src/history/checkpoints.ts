@@ -0,0 +1,53 @@
+import { getHistoryBounds, type Action, type SnapshotAction } from '../utils'
+
+// Long layers are drawn from a checkpoint, which is a picture of everything on the layer but its
+// newest actions. Checkpoints are only ever used for drawing: the actions stay in the history, so
+// they can still be undone, exported as vectors and drawn sharply however far in you zoom.
+
+export interface Checkpoint {
+    // What it's a picture of, which has to be how its layer starts for it to be used.
+    actions: Action[]
+    snapshot: SnapshotAction
+    // Pixels per world unit.
+    scale: number
+}
+
+// How many of a layer's newest actions are always drawn as they are.
+const checkpointTail = 100
+// How many more than that can pile up before the checkpoint gets drawn again to cover them.
+const checkpointBuffer = 20
+// Past this, zoomed in far enough, the actions get drawn as they are instead.
+const maxCheckpointPixels = 2048 * 2048
+
+function startsWith(actions: Action[], start: Action[]): boolean {
+    return start.length <= actions.length && start.every((action, i) => actions[i] === action)
+}
+
+// A layer's actions with its checkpoint in place of the ones it covers, if it's sharp enough to
+// be drawn at `scale`.
+export function applyCheckpoint(actions: Action[], checkpoint: Checkpoint | undefined, scale: number): Action[] {
+    if (!checkpoint || checkpoint.scale < scale || !startsWith(actions, checkpoint.actions)) return actions
+    return [checkpoint.snapshot, ...actions.slice(checkpoint.actions.length)]
+}
+
+// What a layer's next checkpoint should cover and how sharp it should be, or null if the one it
+// has is still good or it can't have one.
+export function planCheckpoint(
+    actions: Action[],
+    checkpoint: Checkpoint | undefined,
+    scale: number,
+): { actions: Action[], scale: number } | null {
+    if (actions.length <= checkpointTail + checkpointBuffer) return null
+    const isCurrent = checkpoint
+        && startsWith(actions, checkpoint.actions)
+        && actions.length - checkpoint.actions.length <= checkpointTail + checkpointBuffer
+    if (isCurrent && checkpoint.scale >= scale) return null
+
+    const covered = actions.slice(0, actions.length - checkpointTail)
+    const bounds = getHistoryBounds(covered)
+    const area = Math.max(1, (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY))
+    // A power of two, so zooming in a little doesn't need a new one straight away
+    const planned = 2 ** Math.ceil(Math.log2(scale))
+    if (planned * planned * area > maxCheckpointPixels) return null
+    return { actions: covered, scale: planned }
+}
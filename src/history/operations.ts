@@ -0,0 +1,87 @@
+import type { Action } from '../utils'
+import type { Layer } from '../layers/layers'
+import type { Frame } from '../frames/frames'
+
+// An undoable change to the history. `before` has the actions as they were and `after` as they
+// became, matched up by id: actions only in `after` were added, only in `before` were deleted,
+// and in both were changed in place.
+export interface Operation {
+    before: Action[]
+    after: Action[]
+    // The whole list of layers as it was and as it became, for operations that change it.
+    layers?: { before: Layer[], after: Layer[] }
+    // The same for the list of frames.
+    frames?: { before: Frame[], after: Frame[] }
+}
+
+export function invertOperation(operation: Operation): Operation {
+    return {
+        before: operation.after,
+        after: operation.before,
+        layers: operation.layers && { before: operation.layers.after, after: operation.layers.before },
+        frames: operation.frames && { before: operation.frames.after, after: operation.frames.before },
+    }
+}
+
+// Whether the history still has everything the operation changes. Actions that someone else in a
+// room removed can't be changed anymore.
+export function canApplyOperation(history: Action[], operation: Operation): boolean {
+    const ids = new Set(history.map((action) => action.id))
+    return operation.before.every((action) => ids.has(action.id))
+}
+
+export function applyOperation(history: Action[], operation: Operation): Action[] {
+    const after = new Map(operation.after.map((action) => [action.id, action]))
+    const deleted = new Set(operation.before.filter((action) => !after.has(action.id)).map((action) => action.id))
+
+    const result: Action[] = []
+    for (const action of history) {
+        if (deleted.has(action.id)) continue
+        const changed = after.get(action.id)
+        result.push(changed ?? action)
+        after.delete(action.id)
+    }
+    // Whatever's left is new, and goes on top
+    result.push(...after.values())
+    return result
+}
+
+// A drawing at some point in its timeline.
+export interface HistoryState {
+    history: Action[]
+    layers: Layer[]
+}
+
+// Applies operations one after another, skipping any that can't be applied anymore, like undo
+// and redo do. Returns the ones that were applied along with where they end up.
+export function replayOperations(state: HistoryState, operations: Operation[]): HistoryState & { applied: Operation[] } {
+    let { history, layers } = state
+    const applied: Operation[] = []
+    for (const operation of operations) {
+        if (!canApplyOperation(history, operation)) continue
+        history = applyOperation(history, operation)
+        if (operation.layers) layers = operation.layers.after
+        applied.push(operation)
+    }
+    return { history, layers, applied }
+}
+
+// A few words about what an operation did, for the timeline.
+export function describeOperation(operation: Operation): string {
+    const afterIds = new Set(operation.after.map((action) => action.id))
+    const beforeIds = new Set(operation.before.map((action) => action.id))
+    const added = operation.after.filter((action) => !beforeIds.has(action.id)).length
+    const removed = operation.before.filter((action) => !afterIds.has(action.id)).length
+    const changed = operation.after.length - added
+
+    const things = (count: number) => count === 1 ? 'something' : `${count} things`
+    if (operation.layers && removed > 0) return 'deleted a layer'
+    if (operation.layers) return 'changed layers'
+    if (operation.frames) {
+        return operation.frames.after.length > operation.frames.before.length ? 'added a frame' : 'deleted a frame'
+    }
+    if (added > 0 && removed === 0 && changed === 0) return `drew ${things(added)}`
+    if (removed > 0 && added === 0 && changed === 0) return `deleted ${things(removed)}`
+    if (changed > 0 && added === 0 && removed === 0) return `changed ${things(changed)}`
+    return 'changed the drawing'
+}
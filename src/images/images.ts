@@ -0,0 +1,90 @@
+import { nanoid } from 'nanoid'
+import type { Action } from '../utils'
+
+// Pasted and dropped images are kept out of the history. Image actions only hold the id of their
+// image, which is a hash of its contents, so moving one around doesn't copy the image and the
+// same image pasted twice is only stored once. The images themselves are data URLs in here, and
+// go into IndexedDB, .jetch files and rooms separately from the actions that use them.
+
+// Anything bigger gets scaled down to fit, which is still plenty for a screenshot.
+export const maxImageSize = 2048
+// Images bigger than this get re-encoded lossily, so they don't take forever to send to a room.
+const maxImageBytes = 2 * 1024 * 1024
+// That's a bit under 3M characters as a data URL, so this leaves some room for images that don't
+// shrink as well. Rooms and .jetch files don't take anything bigger.
+export const maxImageDataUrlLength = 4 * 1024 * 1024
+
+const images = new Map<string, string>()
+
+export function registerImage(id: string, dataUrl: string) {
+    if (!images.has(id)) images.set(id, dataUrl)
+}
+
+export function registerImages(entries: Record<string, string>) {
+    for (const [id, dataUrl] of Object.entries(entries)) registerImage(id, dataUrl)
+}
+
+export function getImageDataUrl(id: string): string | null {
+    return images.get(id) ?? null
+}
+
+// The images some actions use, for saving them along with the actions.
+export function collectImages(actions: Action[]): Record<string, string> {
+    const collected: Record<string, string> = {}
+    for (const action of actions) {
+        if (action.kind !== 'image') continue
+        const dataUrl = images.get(action.image)
+        if (dataUrl) collected[action.image] = dataUrl
+    }
+    return collected
+}
+
+export function isImageFile(file: File): boolean {
+    return file.type.startsWith('image/')
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+    // Hashing needs a secure context, and a random id still works without one
+    if (!crypto.subtle) return nanoid()
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+    return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Canvas to Blob failed')), type, quality)
+    })
+}
+
+export interface PreparedImage {
+    id: string
+    blob: Blob
+    // The size it gets placed at, which is its size in pixels.
+    width: number
+    height: number
+}
+
+// Scales an image file down if it's too big, and works out its id and how big to place it.
+export async function prepareImage(file: Blob): Promise<PreparedImage> {
+    const bitmap = await createImageBitmap(file)
+    const scale = Math.min(1, maxImageSize / Math.max(bitmap.width, bitmap.height))
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+
+    let blob = file
+    const isKeptAsIs = scale === 1 && file.size <= maxImageBytes && ['image/png', 'image/jpeg', 'image/webp'].includes(file.type)
+    if (!isKeptAsIs) {
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = height
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height)
+        // Screenshots stay crisp as PNGs, photos are better off lossy
+        blob = file.type === 'image/png' ? await canvasToBlob(canvas, 'image/png') : await canvasToBlob(canvas, 'image/webp', 0.9)
+        if (blob.size > maxImageBytes && blob.type === 'image/png') blob = await canvasToBlob(canvas, 'image/webp', 0.9)
+    }
+    bitmap.close()
+    // Base64 takes 4 characters for every 3 bytes
+    if (Math.ceil(blob.size / 3) * 4 + blob.type.length + 13 > maxImageDataUrlLength) throw new Error('Image is too big')
+
+    return { id: await hashBlob(blob), blob, width, height }
+}
@@ -0,0 +1,279 @@
+import { z } from 'zod'
+import type { Action, CanvasPosition } from './utils'
+import { defaultLayers, maxLayers, type Layer } from './layers/layers'
+import { defaultFrames, maxFrames, type Frame } from './frames/frames'
+import { defaultStickerId, isStickerId } from './stickers/stickers'
+import { maxImageDataUrlLength } from './images/images'
+
+// A .jetch file is a versioned JSON envelope around a drawing's actions. Bump `currentVersion`
+// and add a migration whenever older files need changing to fit. New optional fields and new
+// kinds of action don't, since older files already match.
+
+export const currentVersion = 1
+
+const finite = z.number().refine(Number.isFinite, 'Expected a finite number')
+export const idSchema = z.string().min(1).max(64)
+const layerIdSchema = idSchema.optional()
+const frameIdSchema = idSchema.optional()
+// When the action was drawn, in milliseconds since the epoch.
+const timeSchema = finite.nonnegative().optional()
+
+export const strokeActionSchema = z.object({
+    id: idSchema,
+    kind: z.enum(['pen', 'eraser']),
+    path: z.array(z.tuple([finite, finite])),
+    color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Expected a hex color').optional(),
+    opacity: finite.min(0).max(1).optional(),
+    preset: z.string().max(64).optional(),
+    layer: layerIdSchema,
+    frame: frameIdSchema,
+    time: timeSchema,
+})
+
+export const stickerActionSchema = z.object({
+    id: idSchema,
+    kind: z.literal('sticker'),
+    sticker: z.string().refine(isStickerId, 'Expected a sticker id'),
+    x: finite,
+    y: finite,
+    scale: finite.positive(),
+    rotation: finite,
+    layer: layerIdSchema,
+    frame: frameIdSchema,
+    time: timeSchema,
+})
+
+export const snapshotActionSchema = z.object({
+    id: idSchema,
+    kind: z.literal('snapshot'),
+    dataUrl: z.string().refine((url) => url === '' || url.startsWith('data:image/'), 'Expected an image data URL'),
+    x: finite,
+    y: finite,
+    width: finite,
+    height: finite,
+    layer: layerIdSchema,
+    frame: frameIdSchema,
+    time: timeSchema,
+})
+
+export const imageActionSchema = z.object({
+    id: idSchema,
+    kind: z.literal('image'),
+    image: idSchema,
+    x: finite,
+    y: finite,
+    width: finite.positive(),
+    height: finite.positive(),
+    layer: layerIdSchema,
+    frame: frameIdSchema,
+    time: timeSchema,
+})
+
+export const shapeActionSchema = z.object({
+    id: idSchema,
+    kind: z.literal('shape'),
+    shape: z.enum(['line', 'arrow', 'rectangle', 'ellipse']),
+    x1: finite,
+    y1: finite,
+    x2: finite,
+    y2: finite,
+    size: finite.positive(),
+    color: strokeActionSchema.shape.color,
+    opacity: strokeActionSchema.shape.opacity,
+    layer: layerIdSchema,
+    frame: frameIdSchema,
+    time: timeSchema,
+})
+
+export const textActionSchema = z.object({
+    id: idSchema,
+    kind: z.literal('text'),
+    x: finite,
+    y: finite,
+    text: z.string().max(10_000),
+    font: z.enum(['comic', 'sans', 'serif', 'mono']),
+    size: finite.positive(),
+    color: strokeActionSchema.shape.color,
+    opacity: strokeActionSchema.shape.opacity,
+    layer: layerIdSchema,
+    frame: frameIdSchema,
+    time: timeSchema,
+})
+
+export const actionSchema = z.discriminatedUnion('kind', [
+    strokeActionSchema,
+    stickerActionSchema,
+    snapshotActionSchema,
+    shapeActionSchema,
+    textActionSchema,
+    imageActionSchema,
+])
+
+export const layerSchema = z.object({
+    id: idSchema,
+    name: z.string().max(100),
+    visible: z.boolean(),
+    locked: z.boolean(),
+    opacity: finite.min(0).max(1),
+})
+
+export const layersSchema = z.array(layerSchema).min(1).max(maxLayers)
+    .refine((layers) => new Set(layers.map((layer) => layer.id)).size === layers.length, 'Expected unique layer ids')
+
+export const framesSchema = z.array(z.object({ id: idSchema })).min(1).max(maxFrames)
+    .refine((frames) => new Set(frames.map((frame) => frame.id)).size === frames.length, 'Expected unique frame ids')
+
+export const imageDataUrlSchema = z.string().max(maxImageDataUrlLength)
+    .refine((url) => url.startsWith('data:image/'), 'Expected an image data URL')
+
+// Image data by id, for the image actions.
+export const imagesSchema = z.record(idSchema, imageDataUrlSchema)
+
+export const positionSchema = z.object({
+    x: finite,
+    y: finite,
+    zoom: finite.refine((zoom) => zoom > 0, 'Expected a positive zoom'),
+})
+
+export const jetchFileSchema = z.object({
+    format: z.literal('jetch'),
+    version: z.literal(currentVersion),
+    metadata: z.object({
+        title: z.string(),
+        created: finite,
+        modified: finite,
+        position: positionSchema,
+    }),
+    layers: layersSchema,
+    frames: framesSchema,
+    actions: z.array(actionSchema),
+    images: imagesSchema,
+})
+
+export interface JetchDocument {
+    title: string
+    created: number
+    modified: number
+    position: CanvasPosition
+    layers: Layer[]
+    frames: Frame[]
+    actions: Action[]
+    // Only needs the images the actions use.
+    images: Record<string, string>
+}
+
+export type ParseResult = { ok: true, document: JetchDocument } | { ok: false, error: string }
+
+type UnknownFile = Record<string, unknown>
+
+function isObject(value: unknown): value is UnknownFile {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Version 0 is a bare `Action[]`, which is what the `history` localStorage key held before there
+// were files. Those drawings are all on one layer and in one frame, with kitties instead of stickers.
+function migrateActions(actions: unknown[]): UnknownFile {
+    return {
+        format: 'jetch',
+        version: 1,
+        metadata: {
+            title: 'untitled',
+            created: Date.now(),
+            modified: Date.now(),
+            position: { x: 0, y: 0, zoom: 1 },
+        },
+        layers: defaultLayers,
+        frames: defaultFrames,
+        actions: actions.map(upgradeKitty),
+        images: {},
+    }
+}
+
+// Kitties were their own kind of action before stickers. Drawings stored in the browser don't go
+// through file migrations, so this is used on those too.
+export function upgradeKitty(action: unknown): unknown {
+    if (!isObject(action) || action.kind !== 'kitty') return action
+    return { ...action, kind: 'sticker', sticker: defaultStickerId, scale: 1, rotation: 0 }
+}
+
+function getVersion(file: unknown): number | null {
+    if (Array.isArray(file)) return 0
+    if (typeof file === 'object' && file !== null && 'version' in file && typeof file.version === 'number') {
+        return file.version
+    }
+    return null
+}
+
+export function migrate(file: unknown): unknown {
+    return Array.isArray(file) ? migrateActions(file) : file
+}
+
+export function parseJetchFile(text: string): ParseResult {
+    let json: unknown
+    try {
+        json = JSON.parse(text)
+    } catch {
+        return { ok: false, error: 'that file isn\'t a jetch drawing (it\'s not even json)' }
+    }
+
+    const version = getVersion(json)
+    if (version === null) {
+        return { ok: false, error: 'that file isn\'t a jetch drawing' }
+    }
+    if (version > currentVersion) {
+        return { ok: false, error: 'that drawing was made with a newer jetch, try reloading the page' }
+    }
+
+    const result = jetchFileSchema.safeParse(migrate(json))
+    if (!result.success) {
+        const issue = result.error.issues[0]
+        const where = issue?.path.length ? ` (at ${issue.path.join('.')})` : ''
+        return { ok: false, error: `that drawing is broken: ${issue?.message.toLowerCase() ?? 'unknown problem'}${where}` }
+    }
+
+    const { metadata, layers, frames, actions, images } = result.data
+    return {
+        ok: true,
+        document: {
+            title: metadata.title,
+            created: metadata.created,
+            modified: metadata.modified,
+            position: metadata.position,
+            layers,
+            frames,
+            actions,
+            images,
+        },
+    }
+}
+
+export function serializeJetchFile(document: JetchDocument): Blob {
+    return new Blob([stringifyJetchFile(document)], { type: 'application/json' })
+}
+
+export function stringifyJetchFile(document: JetchDocument): string {
+    const file: z.infer<typeof jetchFileSchema> = {
+        format: 'jetch',
+        version: currentVersion,
+        metadata: {
+            title: document.title,
+            created: document.created,
+            modified: document.modified,
+            position: document.position,
+        },
+        layers: document.layers,
+        frames: document.frames,
+        actions: document.actions,
+        images: document.images,
+    }
+    return JSON.stringify(file)
+}
+
+export function isJetchFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith('.jetch')
+}
+
+export function jetchFilename(title: string): string {
+    const name = title.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'untitled'
+    return `${name}.jetch`
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import { FocusTrap } from 'focus-trap-react'
+import { FaXmark } from 'react-icons/fa6'
+import styles from './KeymapModal.module.css'
+import {
+    commandGroups,
+    commands,
+    describeBinding,
+    findCommand,
+    getBinding,
+    getCommand,
+    getConflicts,
+    reservedBindings,
+    type Command,
+    type Keymap,
+} from './keymap'
+
+export interface KeymapModalProps {
+    keymap: Keymap
+    onRebind: (command: Command, binding: string | null) => void
+    onReset: () => void
+    onClose: () => void
+}
+
+// A binding that's already taken, waiting to hear whether to take it anyway.
+interface PendingBinding {
+    command: Command
+    binding: string
+    takenBy: Command
+}
+
+// Lists the shortcuts, and lets them be changed by pressing a new key for one.
+export default function KeymapModal(props: KeymapModalProps) {
+    const [isEditing, setIsEditing] = useState(false)
+    const [recording, setRecording] = useState<Command | null>(null)
+    const [pending, setPending] = useState<PendingBinding | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const modalRef = useRef<HTMLDivElement>(null)
+
+    // Listening before anything else does, so the keys being pressed don't do what they normally would
+    useEffect(() => {
+        function onKeyDown(event: KeyboardEvent) {
+            if (!recording) {
+                if (event.key === 'Escape') props.onClose()
+                return
+            }
+
+            event.preventDefault()
+            event.stopPropagation()
+            if (event.key === 'Escape') {
+                setRecording(null)
+                return
+            }
+            const binding = getBinding(event)
+            if (!binding) return
+
+            setRecording(null)
+            const reserved = reservedBindings[binding]
+            if (reserved) {
+                setError(`${describeBinding(binding).join(' + ')} is for ${reserved}, so it can't be changed`)
+                return
+            }
+            const takenBy = findCommand(props.keymap, binding)
+            if (takenBy && takenBy !== recording) {
+                setPending({ command: recording, binding, takenBy })
+                return
+            }
+            props.onRebind(recording, binding)
+        }
+
+        window.addEventListener('keydown', onKeyDown, true)
+        return () => window.removeEventListener('keydown', onKeyDown, true)
+    })
+
+    function startRecording(command: Command) {
+        setRecording(command)
+        setPending(null)
+        setError(null)
+    }
+
+    function onContainerPointerDown(event: PointerEvent) {
+        if (!modalRef.current?.contains(event.target as Node)) props.onClose()
+    }
+
+    function renderBindings(bindings: string[]) {
+        if (bindings.length === 0) return <span className={styles.none}>nothing</span>
+        return bindings.map((binding, i) => (
+            <span key={binding} className={styles.binding}>
+                {i > 0 && <span className={styles.or}>or</span>}
+                {describeBinding(binding).map((key, j) => <kbd key={j}>{key}</kbd>)}
+            </span>
+        ))
+    }
+
+    return (
+        <div className={styles.container} onPointerDown={onContainerPointerDown}>
+            <FocusTrap focusTrapOptions={{ initialFocus: false }}>
+                <div ref={modalRef} className={styles.modal}>
+                    <h2>keyboard shortcuts</h2>
+
+                    {Object.entries(commandGroups).map(([group, title]) => (
+                        <section key={group}>
+                            <h3>{title}</h3>
+                            {commands.filter((command) => command.group === group).map((command) => {
+                                const conflicts = getConflicts(props.keymap, command.id)
+                                return (
+                                    <div key={command.id} className={styles.row}>
+                                        <div className={styles.label}>
+                                            {command.label}
+                                            {conflicts.length > 0 && (
+                                                <div className={styles.warning}>
+                                                    same as {conflicts.map((id) => getCommand(id).label).join(', ')}
+                                                </div>
+                                            )}
+                                            {pending?.command === command.id && (
+                                                <div className={styles.warning}>
+                                                    that's {getCommand(pending.takenBy).label} right now.{' '}
+                                                    <button onClick={() => {
+                                                        props.onRebind(pending.command, pending.binding)
+                                                        setPending(null)
+                                                    }}>
+                                                        use it here
+                                                    </button>
+                                                    <button onClick={() => setPending(null)}>nevermind</button>
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        {isEditing ? (
+                                            <div className={styles.editing}>
+                                                <button
+                                                    className={recording === command.id ? styles.recording : ''}
+                                                    title='press to change'
+                                                    onClick={() => startRecording(command.id)}
+                                                >
+                                                    {recording === command.id ? 'press a key...' : renderBindings(props.keymap[command.id])}
+                                                </button>
+                                                <button
+                                                    title='take it away'
+                                                    disabled={props.keymap[command.id].length === 0}
+                                                    onClick={() => props.onRebind(command.id, null)}
+                                                >
+                                                    <FaXmark />
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div>{renderBindings(props.keymap[command.id])}</div>
+                                        )}
+                                    </div>
+                                )
+                            })}
+                        </section>
+                    ))}
+
+                    {error && <div className={styles.error}>{error}</div>}
+
+                    <div className={styles.buttons}>
+                        {isEditing ? (
+                            <button onClick={() => {
+                                setRecording(null)
+                                setPending(null)
+                                props.onReset()
+                            }}>
+                                back to how they were
+                            </button>
+                        ) : (
+                            <button onClick={() => setIsEditing(true)}>change them</button>
+                        )}
+                        <button onClick={props.onClose}>done</button>
+                    </div>
+                </div>
+            </FocusTrap>
+        </div>
+    )
+}
@@ -0,0 +1,148 @@
+// Keyboard shortcuts. Bindings are strings like 'Mod+Shift+Z', where Mod is ctrl, or cmd on a Mac.
+// Only the commands someone has rebound get stored, so everything else keeps up with the defaults.
+
+export type Command =
+    | 'undo'
+    | 'redo'
+    | 'pen'
+    | 'eraser'
+    | 'sticker'
+    | 'size-down'
+    | 'size-up'
+    | 'zoom-in'
+    | 'zoom-out'
+    | 'zoom-reset'
+    | 'zoom-fit'
+    | 'pan'
+    | 'share'
+    | 'shortcuts'
+
+export interface CommandInfo {
+    id: Command
+    label: string
+    group: 'drawing' | 'view' | 'other'
+    defaults: string[]
+    // Whether holding the key down does it over and over.
+    repeats?: boolean
+}
+
+export const commands: CommandInfo[] = [
+    { id: 'undo', label: 'undo', group: 'drawing', defaults: ['Mod+Z'], repeats: true },
+    { id: 'redo', label: 'redo', group: 'drawing', defaults: ['Mod+Shift+Z', 'Mod+Y'], repeats: true },
+    { id: 'pen', label: 'pen', group: 'drawing', defaults: ['P'] },
+    { id: 'eraser', label: 'eraser', group: 'drawing', defaults: ['E'] },
+    { id: 'sticker', label: 'kitty stickers', group: 'drawing', defaults: ['K'] },
+    { id: 'size-down', label: 'smaller brush', group: 'drawing', defaults: ['['], repeats: true },
+    { id: 'size-up', label: 'bigger brush', group: 'drawing', defaults: [']'], repeats: true },
+    { id: 'zoom-in', label: 'zoom in', group: 'view', defaults: ['=', '+'], repeats: true },
+    { id: 'zoom-out', label: 'zoom out', group: 'view', defaults: ['-'], repeats: true },
+    { id: 'zoom-reset', label: 'actual size', group: 'view', defaults: ['Shift+0'] },
+    { id: 'zoom-fit', label: 'fit the drawing on screen', group: 'view', defaults: ['Shift+1'] },
+    { id: 'pan', label: 'hold to move around', group: 'view', defaults: ['Space'] },
+    { id: 'share', label: 'share with people', group: 'other', defaults: ['Shift+S'] },
+    { id: 'shortcuts', label: 'show shortcuts', group: 'other', defaults: ['?'] },
+]
+
+export const commandGroups = { drawing: 'drawing', view: 'moving around', other: 'other stuff' }
+
+export type Keymap = Record<Command, string[]>
+export type KeymapOverrides = Partial<Keymap>
+
+// These are handled on their own and can't be rebound, so nothing else gets to use them either.
+export const reservedBindings: Record<string, string> = {
+    'Mod+C': 'copying',
+    'Mod+X': 'cutting',
+    'Mod+V': 'pasting',
+    'Mod+D': 'duplicating what\'s selected',
+    'Delete': 'deleting what\'s selected',
+    'Backspace': 'deleting what\'s selected',
+    'Escape': 'letting go of what\'s selected',
+}
+
+export function getCommand(id: Command): CommandInfo {
+    return commands.find((command) => command.id === id)!
+}
+
+// Overrides come from localStorage, so anything that doesn't look right is left at the default.
+export function resolveKeymap(overrides: KeymapOverrides): Keymap {
+    const keymap = {} as Keymap
+    for (const command of commands) {
+        const bindings: unknown = overrides[command.id]
+        const isValid = Array.isArray(bindings) && bindings.every((binding) => typeof binding === 'string')
+        keymap[command.id] = isValid ? bindings : command.defaults
+    }
+    return keymap
+}
+
+const modifierKeys = new Set(['Control', 'Shift', 'Alt', 'Meta', 'CapsLock', 'Fn'])
+
+// The binding for a key press, or null if it's only a modifier so far.
+export function getBinding(event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+    if (modifierKeys.has(event.key)) return null
+
+    // Letters and digits go by the key rather than what it types, since alt and shift change that
+    let key = event.key
+    if (/^Key[A-Z]$/.test(event.code)) {
+        key = event.code.slice(3)
+    } else if (/^Digit\d$/.test(event.code)) {
+        key = event.code.slice(5)
+    } else if (key === ' ') {
+        key = 'Space'
+    }
+
+    // Symbols already say whether shift was held, like ? being shift and /
+    const isSymbol = key.length === 1 && !/[A-Z0-9]/.test(key)
+    const modifiers = []
+    if (event.ctrlKey || event.metaKey) modifiers.push('Mod')
+    if (event.altKey) modifiers.push('Alt')
+    if (event.shiftKey && !isSymbol) modifiers.push('Shift')
+    return [...modifiers, key].join('+')
+}
+
+export function findCommand(keymap: Keymap, binding: string): Command | null {
+    return commands.find((command) => keymap[command.id].includes(binding))?.id ?? null
+}
+
+// Other commands sharing a binding with `command`, which can happen when the defaults change.
+export function getConflicts(keymap: Keymap, command: Command): Command[] {
+    return commands
+        .filter((other) => other.id !== command && keymap[other.id].some((binding) => keymap[command].includes(binding)))
+        .map((other) => other.id)
+}
+
+// Gives `command` just the one binding, or none, taking it away from whatever else had it.
+export function rebind(keymap: Keymap, overrides: KeymapOverrides, command: Command, binding: string | null): KeymapOverrides {
+    const next: KeymapOverrides = { ...overrides, [command]: binding === null ? [] : [binding] }
+    if (binding === null) return next
+    for (const other of commands) {
+        if (other.id !== command && keymap[other.id].includes(binding)) {
+            next[other.id] = keymap[other.id].filter((existing) => existing !== binding)
+        }
+    }
+    return next
+}
+
+const isMac = /Mac|iPhone|iPad/.test(navigator.userAgent)
+
+const keyNames: Record<string, string> = {
+    Mod: isMac ? '⌘' : 'ctrl',
+    Alt: isMac ? '⌥' : 'alt',
+    Shift: isMac ? '⇧' : 'shift',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+}
+
+// The keys in a binding the way they're written on the keyboard, one per key.
+export function describeBinding(binding: string): string[] {
+    const keys = []
+    let rest = binding
+    for (const modifier of ['Mod', 'Alt', 'Shift']) {
+        if (!rest.startsWith(`${modifier}+`) || rest.length === modifier.length + 1) continue
+        keys.push(modifier)
+        rest = rest.slice(modifier.length + 1)
+    }
+    keys.push(rest)
+    return keys.map((key) => keyNames[key] ?? key.toLowerCase())
+}
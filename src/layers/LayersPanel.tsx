@@ -0,0 +1,112 @@
+import { useId, useRef, useState } from 'react'
+import { FaArrowDown, FaArrowUp, FaEye, FaEyeSlash, FaLayerGroup, FaLock, FaLockOpen, FaPlus, FaTrash } from 'react-icons/fa6'
+import styles from './LayersPanel.module.css'
+import { maxLayers, moveLayer, type Layer } from './layers'
+import { useDismiss } from '@/utils'
+
+export interface LayersPanelProps {
+    layers: Layer[]
+    activeLayerId: string
+    onActivate: (id: string) => void
+    onChange: (layers: Layer[]) => void
+    onAdd: () => void
+    onDelete: (id: string) => void
+}
+
+export default function LayersPanel(props: LayersPanelProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const opacityId = useId()
+
+    useDismiss(containerRef, isOpen, () => setIsOpen(false))
+
+    const active = props.layers.find((layer) => layer.id === props.activeLayerId)!
+    const index = props.layers.indexOf(active)
+
+    function change(id: string, patch: Partial<Omit<Layer, 'id'>>) {
+        props.onChange(props.layers.map((layer) => layer.id === id ? { ...layer, ...patch } : layer))
+    }
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button title={`layers: ${active.name}`} onClick={() => setIsOpen(!isOpen)}>
+                <FaLayerGroup />
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    {/* The top layer goes first, the same as it's stacked */}
+                    <div className={styles.list}>
+                        {props.layers.toReversed().map((layer) => (
+                            <div
+                                key={layer.id}
+                                className={`${styles.layer} ${layer.id === active.id ? styles.active : ''}`}
+                                onPointerDown={() => props.onActivate(layer.id)}
+                            >
+                                <button
+                                    title={layer.visible ? 'hide' : 'show'}
+                                    onClick={() => change(layer.id, { visible: !layer.visible })}
+                                >
+                                    {layer.visible ? <FaEye /> : <FaEyeSlash />}
+                                </button>
+                                <button
+                                    title={layer.locked ? 'unlock' : 'lock'}
+                                    onClick={() => change(layer.id, { locked: !layer.locked })}
+                                >
+                                    {layer.locked ? <FaLock /> : <FaLockOpen />}
+                                </button>
+                                <input
+                                    type='text'
+                                    value={layer.name}
+                                    maxLength={100}
+                                    aria-label='layer name'
+                                    spellCheck={false}
+                                    onChange={(event) => change(layer.id, { name: event.target.value })}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className={styles.row}>
+                        <label htmlFor={opacityId}>opacity</label>
+                        <input
+                            type='range'
+                            id={opacityId}
+                            min={0}
+                            max={100}
+                            value={Math.round(active.opacity * 100)}
+                            onChange={(event) => change(active.id, { opacity: parseInt(event.target.value, 10) / 100 })}
+                        />
+                    </div>
+
+                    <div className={styles.actions}>
+                        <button title='new layer' disabled={props.layers.length >= maxLayers} onClick={props.onAdd}>
+                            <FaPlus />
+                        </button>
+                        <button
+                            title='move up'
+                            disabled={index === props.layers.length - 1}
+                            onClick={() => props.onChange(moveLayer(props.layers, active.id, 1))}
+                        >
+                            <FaArrowUp />
+                        </button>
+                        <button
+                            title='move down'
+                            disabled={index === 0}
+                            onClick={() => props.onChange(moveLayer(props.layers, active.id, -1))}
+                        >
+                            <FaArrowDown />
+                        </button>
+                        <button
+                            title='delete layer'
+                            disabled={props.layers.length === 1}
+                            onClick={() => props.onDelete(active.id)}
+                        >
+                            <FaTrash />
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,61 @@
+import { nanoid } from 'nanoid'
+import type { Action } from '../utils'
+
+// Every action belongs to a layer by id, and each layer is drawn separately and then stacked with
+// `compositeLayer`. The list goes from the bottom layer to the top one.
+
+export interface Layer {
+    id: string
+    name: string
+    visible: boolean
+    // Locked layers can't be drawn on or changed.
+    locked: boolean
+    opacity: number
+}
+
+export const maxLayers = 32
+
+// Drawings from before layers have a single layer with this id, which everyone in a room also
+// starts out with.
+export const defaultLayers: Layer[] = [{ id: 'base', name: 'layer 1', visible: true, locked: false, opacity: 1 }]
+
+export function createLayer(layers: Layer[]): Layer {
+    // Numbered one past the highest so far, so names don't repeat after deleting
+    const highest = Math.max(0, ...layers.map((layer) => Number(layer.name.match(/^layer (\d+)$/)?.[1] ?? 0)))
+    return { id: nanoid(), name: `layer ${highest + 1}`, visible: true, locked: false, opacity: 1 }
+}
+
+// Actions from before layers are on the default layer. Ones whose layer is gone, like when someone
+// else in a room deleted it, go on the bottom layer.
+export function getLayerId(action: Action, layers: Layer[]): string {
+    const id = action.layer ?? defaultLayers[0]!.id
+    return layers.some((layer) => layer.id === id) ? id : layers[0]!.id
+}
+
+export function groupByLayer(history: Action[], layers: Layer[]): Map<string, Action[]> {
+    const groups = new Map<string, Action[]>(layers.map((layer) => [layer.id, []]))
+    for (const action of history) groups.get(getLayerId(action, layers))!.push(action)
+    return groups
+}
+
+export function getVisibleActions(history: Action[], layers: Layer[]): Action[] {
+    const visible = new Set(layers.filter((layer) => layer.visible).map((layer) => layer.id))
+    return history.filter((action) => visible.has(getLayerId(action, layers)))
+}
+
+// Whether an action's layer can be seen and isn't locked, which is what selecting needs.
+export function isEditable(action: Action, layers: Layer[]): boolean {
+    const id = getLayerId(action, layers)
+    const layer = layers.find((layer) => layer.id === id)!
+    return layer.visible && !layer.locked
+}
+
+// Moves a layer up (towards the top) or down by one.
+export function moveLayer(layers: Layer[], id: string, direction: 1 | -1): Layer[] {
+    const index = layers.findIndex((layer) => layer.id === id)
+    const target = index + direction
+    if (index === -1 || target < 0 || target >= layers.length) return layers
+    const moved = layers.toSpliced(index, 1)
+    moved.splice(target, 0, layers[index]!)
+    return moved
+}
@@ -0,0 +1,272 @@
+import { closeImages, compositeLayer, getHistoryBounds, loadImages, renderAction, type Action, type ImageCache, type RenderContext } from '../utils'
+import { defaultLayers, getVisibleActions, groupByLayer, type Layer } from '../layers/layers'
+import { getFrameActions, type Frame } from '../frames/frames'
+import { countShownAt, createReplayCanvas, getReplayTimes, replayHold } from '../replay/replay'
+import { buildPalette, countColors, createGifEncoder } from '../replay/gif'
+
+// The drawing behind snapshots, PNG exports, GIF timelapses and flipbooks, which normally happens in the rendering worker.
+// It pauses every so often to report progress and to notice when it's been cancelled.
+
+export interface RenderOptions {
+    signal?: AbortSignal
+    // How far along it is, from 0 to 1.
+    onProgress?: (progress: number) => void
+}
+
+export interface RenderedSnapshot {
+    blob: Blob
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+type Pace = (progress: number) => Promise<void>
+
+// Timelapse GIFs are at most this many pixels each way.
+const gifSize = 480
+// 10 frames a second, in milliseconds.
+const gifFrameDelay = 100
+// Longer timelapses go faster in the GIF than they would replaying, to keep the file small.
+const maxGifFrames = 300
+
+// How long to draw for in between pauses, in milliseconds.
+const sliceDuration = 50
+
+function createPace({ signal, onProgress }: RenderOptions): Pace {
+    let sliceStart = performance.now()
+    return async (progress) => {
+        if (performance.now() - sliceStart < sliceDuration) return
+        await new Promise((resolve) => setTimeout(resolve))
+        signal?.throwIfAborted()
+        onProgress?.(progress)
+        sliceStart = performance.now()
+    }
+}
+
+// Draws each visible layer on a canvas of its own before stacking it on top with `compositeLayer`.
+// Uses whatever transform the context has. Progress goes from `from` to `to`.
+async function renderLayersPaced(
+    ctx: RenderContext,
+    history: Action[],
+    layers: Layer[],
+    imageCache: ImageCache,
+    pace: Pace,
+    from: number,
+    to: number,
+) {
+    const groups = groupByLayer(history, layers)
+    const layerCanvas = new OffscreenCanvas(ctx.canvas.width, ctx.canvas.height)
+    const layerCtx = layerCanvas.getContext('2d')!
+    let done = 0
+
+    for (const layer of layers) {
+        const actions = groups.get(layer.id)!
+        if (!layer.visible || actions.length === 0) continue
+
+        layerCtx.setTransform(1, 0, 0, 1, 0, 0)
+        layerCtx.clearRect(0, 0, layerCanvas.width, layerCanvas.height)
+        layerCtx.setTransform(ctx.getTransform())
+        for (const action of actions) {
+            renderAction(layerCtx, action, imageCache)
+            await pace(from + (to - from) * ++done / history.length)
+        }
+        compositeLayer(ctx, layerCanvas, layer.opacity)
+    }
+}
+
+// Without layers, the actions are all drawn together as one layer. Null if there's nothing to draw.
+export async function renderSnapshot(
+    actions: Action[],
+    scale: number,
+    layers: Layer[] | undefined,
+    options: RenderOptions = {},
+): Promise<RenderedSnapshot | null> {
+    const pace = createPace(options)
+    if (layers) actions = getVisibleActions(actions, layers)
+    const bounds = getHistoryBounds(actions)
+    const width = Math.ceil(bounds.maxX - bounds.minX)
+    const height = Math.ceil(bounds.maxY - bounds.minY)
+    if (width <= 0 || height <= 0) return null
+
+    const canvas = new OffscreenCanvas(width * scale, height * scale)
+    const ctx = canvas.getContext('2d')!
+    ctx.scale(scale, scale)
+    ctx.translate(-bounds.minX, -bounds.minY)
+
+    const imageCache: ImageCache = new Map()
+    await loadImages(actions, imageCache)
+    try {
+        await renderLayersPaced(ctx, actions, layers ?? defaultLayers, imageCache, pace, 0, 0.9)
+    } finally {
+        closeImages(imageCache)
+    }
+
+    const blob = await canvas.convertToBlob()
+    options.onProgress?.(1)
+    return { blob, x: bounds.minX, y: bounds.minY, width, height }
+}
+
+export async function renderPng(history: Action[], layers: Layer[], options: RenderOptions = {}): Promise<Blob> {
+    const pace = createPace(options)
+    history = getVisibleActions(history, layers)
+    const { minX, minY, maxX, maxY } = getHistoryBounds(history)
+
+    const padding = 20
+    const width = Math.ceil(maxX - minX + padding * 2)
+    const height = Math.ceil(maxY - minY + padding * 2)
+
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')!
+
+    // Translate to center the content with padding
+    ctx.translate(-minX + padding, -minY + padding)
+
+    // Ensure all snapshot images are loaded for export
+    const imageCache: ImageCache = new Map()
+    await loadImages(history, imageCache)
+
+    try {
+        await renderLayersPaced(ctx, history, layers, imageCache, pace, 0, 0.4)
+
+        const imageData = ctx.getImageData(0, 0, width, height)
+        const data = imageData.data
+
+        // Crop transparent pixels
+        let cMinX = width
+        let cMinY = height
+        let cMaxX = 0
+        let cMaxY = 0
+        let found = false
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const alpha = data[(y * width + x) * 4 + 3]!
+                if (alpha > 0) {
+                    if (x < cMinX) cMinX = x
+                    if (x > cMaxX) cMaxX = x
+                    if (y < cMinY) cMinY = y
+                    if (y > cMaxY) cMaxY = y
+                    found = true
+                }
+            }
+            await pace(0.4 + 0.2 * y / height)
+        }
+
+        const cropWidth = found ? cMaxX - cMinX + 1 : 0
+        const cropHeight = found ? cMaxY - cMinY + 1 : 0
+
+        const MAX_DIMENSION = 2000
+        const scale = Math.min(4, MAX_DIMENSION / cropWidth, MAX_DIMENSION / cropHeight)
+        const finalWidth = Math.floor(cropWidth * scale)
+        const finalHeight = Math.floor(cropHeight * scale)
+
+        const outputCanvas = new OffscreenCanvas(finalWidth + padding * 2, finalHeight + padding * 2)
+        const outCtx = outputCanvas.getContext('2d')!
+
+        outCtx.fillStyle = '#ffffff'
+        outCtx.fillRect(0, 0, outputCanvas.width, outputCanvas.height)
+
+        if (found) {
+            outCtx.save()
+            outCtx.translate(padding, padding)
+            outCtx.scale(scale, scale)
+            outCtx.translate(-(cMinX + minX - padding), -(cMinY + minY - padding))
+            await renderLayersPaced(outCtx, history, layers, imageCache, pace, 0.6, 1)
+            outCtx.restore()
+        }
+
+        const blob = await outputCanvas.convertToBlob({ type: 'image/png' })
+        options.onProgress?.(1)
+        return blob
+    } finally {
+        closeImages(imageCache)
+    }
+}
+
+// A looping timelapse of the drawing being drawn, see `replay.ts`.
+export async function renderGif(history: Action[], layers: Layer[], speed: number, options: RenderOptions = {}): Promise<Blob> {
+    const pace = createPace(options)
+    const imageCache: ImageCache = new Map()
+    await loadImages(history, imageCache)
+
+    try {
+        const replay = createReplayCanvas(history, layers, imageCache, gifSize)
+        const { width, height } = replay.canvas
+        const ctx = replay.canvas.getContext('2d')!
+        const times = getReplayTimes(replay.actions)
+        const duration = (times.at(-1) ?? 0) / speed
+        const frameCount = Math.min(maxGifFrames, Math.ceil(duration / gifFrameDelay) + 1)
+
+        // The finished drawing has every color that's going to come up
+        replay.drawFrame(replay.actions.length)
+        const encoder = createGifEncoder(width, height, buildPalette(countColors(ctx.getImageData(0, 0, width, height).data)))
+        for (let frame = 0; frame < frameCount; frame++) {
+            const elapsed = frameCount > 1 ? duration * frame / (frameCount - 1) : duration
+            replay.drawFrame(countShownAt(times, elapsed * speed))
+            const delay = frame === frameCount - 1 ? replayHold : gifFrameDelay
+            encoder.addFrame(ctx.getImageData(0, 0, width, height).data, delay)
+            await pace(frame / frameCount)
+        }
+
+        const blob = encoder.finish()
+        options.onProgress?.(1)
+        return blob
+    } finally {
+        closeImages(imageCache)
+    }
+}
+
+// Every frame of a flipbook in order as a looping GIF, all lined up the way they are on the canvas.
+export async function renderFlipbook(
+    history: Action[],
+    layers: Layer[],
+    frames: Frame[],
+    fps: number,
+    options: RenderOptions = {},
+): Promise<Blob> {
+    const pace = createPace(options)
+    history = getVisibleActions(history, layers)
+    const bounds = getHistoryBounds(history)
+    const padding = 20
+    const contentWidth = Math.max(1, bounds.maxX - bounds.minX)
+    const contentHeight = Math.max(1, bounds.maxY - bounds.minY)
+    const scale = Math.min(2, (gifSize - padding * 2) / Math.max(contentWidth, contentHeight))
+    const width = Math.ceil(contentWidth * scale + padding * 2)
+    const height = Math.ceil(contentHeight * scale + padding * 2)
+
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')!
+    const imageCache: ImageCache = new Map()
+    await loadImages(history, imageCache)
+
+    // Drawn once to pick the colors and again to store them, so every frame isn't kept around
+    const frameActions = frames.map((frame) => getFrameActions(history, frames, frame.id))
+    async function renderFrame(actions: Action[], from: number, to: number): Promise<Uint8ClampedArray> {
+        ctx.setTransform(1, 0, 0, 1, 0, 0)
+        ctx.fillStyle = '#ffffff'
+        ctx.fillRect(0, 0, width, height)
+        ctx.setTransform(scale, 0, 0, scale, padding - bounds.minX * scale, padding - bounds.minY * scale)
+        await renderLayersPaced(ctx, actions, layers, imageCache, pace, from, to)
+        return ctx.getImageData(0, 0, width, height).data
+    }
+
+    try {
+        const counts = new Uint32Array(1 << 15)
+        for (const [i, actions] of frameActions.entries()) {
+            countColors(await renderFrame(actions, 0.5 * i / frames.length, 0.5 * (i + 1) / frames.length), counts)
+        }
+
+        const encoder = createGifEncoder(width, height, buildPalette(counts))
+        for (const [i, actions] of frameActions.entries()) {
+            const pixels = await renderFrame(actions, 0.5 + 0.5 * i / frames.length, 0.5 + 0.5 * (i + 1) / frames.length)
+            encoder.addFrame(pixels, 1000 / fps)
+        }
+
+        const blob = encoder.finish()
+        options.onProgress?.(1)
+        return blob
+    } finally {
+        closeImages(imageCache)
+    }
+}
@@ -0,0 +1,40 @@
+import { registerImages } from '../images/images'
+import type { RenderOptions } from './render'
+import { renderTask, type RenderWorkerRequest, type RenderWorkerResponse } from './renderer'
+
+// Runs in the rendering worker, see `renderer.ts`.
+
+const tasks = new Map<number, AbortController>()
+
+function reply(response: RenderWorkerResponse) {
+    self.postMessage(response)
+}
+
+self.addEventListener('message', async (event: MessageEvent<RenderWorkerRequest>) => {
+    const request = event.data
+    if (request.kind === 'cancel') {
+        tasks.get(request.id)?.abort()
+        return
+    }
+
+    const { id } = request
+    const controller = new AbortController()
+    tasks.set(id, controller)
+    const options: RenderOptions = {
+        signal: controller.signal,
+        onProgress: (progress) => reply({ kind: 'progress', id, progress }),
+    }
+
+    try {
+        registerImages(request.images)
+        reply({ kind: 'done', id, result: await renderTask(request, options) })
+    } catch (error) {
+        // Nobody's waiting on a cancelled task anymore
+        if (!controller.signal.aborted) {
+            console.error(error)
+            reply({ kind: 'error', id, message: error instanceof Error ? error.message : String(error) })
+        }
+    } finally {
+        tasks.delete(id)
+    }
+})
@@ -0,0 +1,177 @@
+import { blobToDataUrl, getHistoryBounds, type Action, type SnapshotAction } from '../utils'
+import { getVisibleActions, type Layer } from '../layers/layers'
+import type { Frame } from '../frames/frames'
+import { collectImages } from '../images/images'
+import { renderFlipbook, renderGif, renderPng, renderSnapshot, type RenderedSnapshot, type RenderOptions } from './render'
+
+// Snapshots, PNG exports, GIF timelapses and flipbooks are drawn in a worker, so big drawings don't freeze the page. The
+// page only sends over the actions, along with the pasted images they use, and gets a Blob back.
+// If the worker can't start, they're drawn on the page like before.
+
+export type RenderTask =
+    | { kind: 'snapshot', actions: Action[], layers?: Layer[], scale: number, images: Record<string, string> }
+    | { kind: 'png', actions: Action[], layers: Layer[], images: Record<string, string> }
+    | { kind: 'gif', actions: Action[], layers: Layer[], speed: number, images: Record<string, string> }
+    | { kind: 'flipbook', actions: Action[], layers: Layer[], frames: Frame[], fps: number, images: Record<string, string> }
+
+export type RenderResult = RenderedSnapshot | Blob | null
+
+export type RenderWorkerRequest = (RenderTask & { id: number }) | { kind: 'cancel', id: number }
+
+export type RenderWorkerResponse =
+    | { kind: 'progress', id: number, progress: number }
+    | { kind: 'done', id: number, result: RenderResult }
+    | { kind: 'error', id: number, message: string }
+
+// The server bundles the worker on its own, since the page's bundle can't include it.
+const workerUrl = '/renderWorker.js'
+
+interface PendingTask {
+    resolve: (result: RenderResult) => void
+    reject: (error: unknown) => void
+    onProgress?: (progress: number) => void
+    // Draws it on the page instead.
+    fallBack: () => void
+}
+
+let worker: Worker | null = null
+let isWorkerBroken = false
+let nextId = 0
+const pending = new Map<number, PendingTask>()
+
+function getWorker(): Worker | null {
+    if (worker || isWorkerBroken) return worker
+    try {
+        worker = new Worker(workerUrl, { type: 'module' })
+    } catch (error) {
+        console.error(error)
+        isWorkerBroken = true
+        return null
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<RenderWorkerResponse>) => {
+        const response = event.data
+        const task = pending.get(response.id)
+        if (!task) return
+        if (response.kind === 'progress') {
+            task.onProgress?.(response.progress)
+            return
+        }
+
+        pending.delete(response.id)
+        if (response.kind === 'done') task.resolve(response.result)
+        else task.reject(new Error(response.message))
+    })
+
+    // The worker catches its own errors, so this means it couldn't load
+    worker.addEventListener('error', (event) => {
+        console.error('The rendering worker failed, drawing on the page instead', event)
+        isWorkerBroken = true
+        worker?.terminate()
+        worker = null
+        for (const task of pending.values()) task.fallBack()
+        pending.clear()
+    })
+
+    return worker
+}
+
+// Draws a task wherever this is running, which is what the worker does with the ones it gets.
+export function renderTask(task: RenderTask, options: RenderOptions): Promise<RenderResult> {
+    if (task.kind === 'png') return renderPng(task.actions, task.layers, options)
+    if (task.kind === 'gif') return renderGif(task.actions, task.layers, task.speed, options)
+    if (task.kind === 'flipbook') return renderFlipbook(task.actions, task.layers, task.frames, task.fps, options)
+    return renderSnapshot(task.actions, task.scale, task.layers, options)
+}
+
+async function runTask(task: RenderTask, options: RenderOptions = {}): Promise<RenderResult> {
+    const { signal } = options
+    signal?.throwIfAborted()
+    const current = getWorker()
+    if (!current) return renderTask(task, options)
+
+    return new Promise((resolve, reject) => {
+        const id = nextId++
+        const onAbort = () => {
+            pending.delete(id)
+            current.postMessage({ kind: 'cancel', id } satisfies RenderWorkerRequest)
+            reject(signal!.reason)
+        }
+        const settle = () => signal?.removeEventListener('abort', onAbort)
+
+        pending.set(id, {
+            resolve: (result) => {
+                settle()
+                resolve(result)
+            },
+            reject: (error) => {
+                settle()
+                reject(error)
+            },
+            onProgress: options.onProgress,
+            fallBack: () => {
+                settle()
+                renderTask(task, options).then(resolve, reject)
+            },
+        })
+        signal?.addEventListener('abort', onAbort, { once: true })
+        current.postMessage({ ...task, id } satisfies RenderWorkerRequest)
+    })
+}
+
+// Without layers, the actions are all drawn together as one layer.
+export async function createSnapshot(
+    actions: Action[],
+    id: string,
+    scale: number = 2,
+    layers?: Layer[],
+    options?: RenderOptions,
+): Promise<SnapshotAction> {
+    const images = collectImages(actions)
+    const rendered = await runTask({ kind: 'snapshot', actions, layers, scale, images }, options) as RenderedSnapshot | null
+
+    // Handle empty case
+    if (!rendered) return { id, kind: 'snapshot', dataUrl: '', x: 0, y: 0, width: 0, height: 0 }
+
+    return {
+        id,
+        kind: 'snapshot',
+        dataUrl: await blobToDataUrl(rendered.blob),
+        x: rendered.x,
+        y: rendered.y,
+        width: rendered.width,
+        height: rendered.height,
+    }
+}
+
+// A small PNG of the whole drawing for the document gallery, or null if there's nothing drawn.
+export async function createThumbnail(
+    actions: Action[],
+    layers: Layer[],
+    maxSize: number = 240,
+    options?: RenderOptions,
+): Promise<string | null> {
+    const bounds = getHistoryBounds(getVisibleActions(actions, layers))
+    const longestSide = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY)
+    if (longestSide <= 0) return null
+
+    const snapshot = await createSnapshot(actions, 'thumbnail', Math.min(1, maxSize / longestSide), layers, options)
+    return snapshot.dataUrl
+}
+
+export async function exportAsPng(history: Action[], layers: Layer[], options?: RenderOptions): Promise<Blob> {
+    const images = collectImages(history)
+    return await runTask({ kind: 'png', actions: history, layers, images }, options) as Blob
+}
+
+// The timelapse from `replay.ts` as a looping GIF, played at `speed` times normal speed.
+export async function exportAsGif(history: Action[], layers: Layer[], speed: number, options?: RenderOptions): Promise<Blob> {
+    const images = collectImages(history)
+    return await runTask({ kind: 'gif', actions: history, layers, speed, images }, options) as Blob
+}
+
+// Every frame of a flipbook as a looping GIF, at `fps` frames a second.
+export async function exportFlipbook(history: Action[], layers: Layer[], frames: Frame[], fps: number, options?: RenderOptions): Promise<Blob> {
+    const images = collectImages(history)
+    return await runTask({ kind: 'flipbook', actions: history, layers, frames, fps, images }, options) as Blob
+}
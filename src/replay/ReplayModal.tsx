@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import { FocusTrap } from 'focus-trap-react'
+import { FaPause, FaPlay } from 'react-icons/fa6'
+import styles from './ReplayModal.module.css'
+import { closeImages, downloadBlob, loadImages, useLocalState, type Action, type ImageCache } from '@/utils'
+import type { Layer } from '../layers/layers'
+import { exportAsGif } from '../rendering/renderer'
+import { countShownAt, createReplayCanvas, getReplayTimes, replaySpeeds, type ReplayCanvas } from './replay'
+import { canRecordWebm, recordWebm } from './webm'
+
+export interface ReplayModalProps {
+    history: Action[]
+    layers: Layer[]
+    onClose: () => void
+}
+
+type ExportFormat = 'gif' | 'webm'
+
+// In pixels each way.
+const playerSize = 720
+
+export default function ReplayModal(props: ReplayModalProps) {
+    // It replays the drawing as it was when it opened
+    const [{ history, layers }] = useState(() => ({ history: props.history, layers: props.layers }))
+    const [replay, setReplay] = useState<{ canvas: ReplayCanvas, times: number[] } | null>(null)
+    const [speed, setSpeed] = useLocalState<number>('replay-speed', 4)
+    // How far in it is, in milliseconds at normal speed
+    const [elapsed, setElapsed] = useState(0)
+    const [isPlaying, setIsPlaying] = useState(true)
+    const [exporting, setExporting] = useState<{ format: ExportFormat, progress: number } | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const exportController = useRef<AbortController | null>(null)
+    const modalRef = useRef<HTMLDivElement>(null)
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    const duration = replay?.times.at(-1) ?? 0
+
+    useEffect(() => {
+        const imageCache: ImageCache = new Map()
+        let isCancelled = false
+        loadImages(history, imageCache).then(() => {
+            if (isCancelled) return
+            const canvas = createReplayCanvas(history, layers, imageCache, playerSize)
+            setReplay({ canvas, times: getReplayTimes(canvas.actions) })
+        })
+        return () => {
+            isCancelled = true
+            closeImages(imageCache)
+            exportController.current?.abort()
+        }
+    }, [])
+
+    useEffect(() => {
+        if (!isPlaying || !replay) return
+        let frame = 0
+        let last = performance.now()
+        const tick = (now: number) => {
+            const delta = (now - last) * speed
+            last = now
+            setElapsed((elapsed) => Math.min(duration, elapsed + delta))
+            frame = requestAnimationFrame(tick)
+        }
+        frame = requestAnimationFrame(tick)
+        return () => cancelAnimationFrame(frame)
+    }, [isPlaying, replay, speed])
+
+    useEffect(() => {
+        if (replay && elapsed >= duration) setIsPlaying(false)
+    }, [replay, elapsed])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!replay || !canvas) return
+        replay.canvas.drawFrame(countShownAt(replay.times, elapsed))
+        canvas.getContext('2d')!.drawImage(replay.canvas.canvas, 0, 0)
+    }, [replay, elapsed])
+
+    function togglePlaying() {
+        // Playing from the end starts over
+        if (!isPlaying && elapsed >= duration) setElapsed(0)
+        setIsPlaying(!isPlaying)
+    }
+
+    async function download(format: ExportFormat) {
+        // Pressing it again while it's still going gives up
+        if (exportController.current) {
+            exportController.current.abort()
+            return
+        }
+
+        const controller = new AbortController()
+        exportController.current = controller
+        setExporting({ format, progress: 0 })
+        setError(null)
+        const options = {
+            signal: controller.signal,
+            onProgress: (progress: number) => setExporting({ format, progress }),
+        }
+        try {
+            const blob = format === 'gif'
+                ? await exportAsGif(history, layers, speed, options)
+                : await recordWebm(history, layers, speed, options)
+            downloadBlob(blob, `jetch.${format}`)
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                console.error(error)
+                setError(`couldn't make the ${format} :(`)
+            }
+        } finally {
+            exportController.current = null
+            setExporting(null)
+        }
+    }
+
+    function onContainerPointerDown(event: PointerEvent) {
+        if (!modalRef.current?.contains(event.target as Node)) props.onClose()
+    }
+
+    function exportButton(format: ExportFormat, label: string, busyLabel: string) {
+        const isBusy = exporting?.format === format
+        return (
+            <button
+                title={isBusy ? 'press again to stop' : undefined}
+                disabled={exporting !== null && !isBusy}
+                onClick={() => download(format)}
+            >
+                {isBusy ? `${busyLabel} ${Math.round(exporting.progress * 100)}%` : label}
+            </button>
+        )
+    }
+
+    return (
+        <div className={styles.container} onPointerDown={onContainerPointerDown}>
+            <FocusTrap focusTrapOptions={{ initialFocus: false }}>
+                <div ref={modalRef} className={styles.modal}>
+                    <h2>how it was drawn</h2>
+
+                    {replay ? (
+                        <canvas
+                            ref={canvasRef}
+                            className={styles.player}
+                            width={replay.canvas.canvas.width}
+                            height={replay.canvas.canvas.height}
+                        />
+                    ) : (
+                        <p className={styles.message}>getting ready...</p>
+                    )}
+
+                    <div className={styles.controls}>
+                        <button title={isPlaying ? 'pause' : 'play'} disabled={!replay} onClick={togglePlaying}>
+                            {isPlaying ? <FaPause /> : <FaPlay />}
+                        </button>
+                        <input
+                            type='range'
+                            aria-label='how far in'
+                            min={0}
+                            max={duration}
+                            value={elapsed}
+                            disabled={!replay}
+                            onChange={(event) => {
+                                setIsPlaying(false)
+                                setElapsed(parseFloat(event.target.value))
+                            }}
+                        />
+                        <div className={styles.speeds}>
+                            {replaySpeeds.map((option) => (
+                                <button
+                                    key={option}
+                                    className={option === speed ? styles.active : ''}
+                                    onClick={() => setSpeed(option)}
+                                >
+                                    {option}x
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className={styles.buttons}>
+                        {exportButton('gif', 'download gif', 'making gif')}
+                        {canRecordWebm() && exportButton('webm', 'download webm', 'recording')}
+                        <button onClick={props.onClose}>close</button>
+                    </div>
+
+                    {error && <div className={styles.error}>{error}</div>}
+                </div>
+            </FocusTrap>
+        </div>
+    )
+}
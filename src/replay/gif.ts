@@ -0,0 +1,265 @@
+// A small animated GIF encoder. Every frame shares one palette of the drawing's most common colors,
+// and only the part of a frame that changed since the last one gets stored, which for a timelapse
+// is usually just the newest stroke.
+
+export interface GifEncoder {
+    // RGBA pixels the size of the GIF, shown for `delay` milliseconds.
+    addFrame(pixels: Uint8ClampedArray, delay: number): void
+    finish(): Blob
+}
+
+// Counts how often each color comes up in RGBA pixels, adding to `counts` if it's given. Colors are
+// counted with 5 bits per channel, so near enough ones count together.
+export function countColors(pixels: Uint8ClampedArray, counts = new Uint32Array(1 << 15)): Uint32Array {
+    for (let i = 0; i < pixels.length; i += 4) counts[colorKey(pixels[i]!, pixels[i + 1]!, pixels[i + 2]!)]!++
+    return counts
+}
+
+// The 256 most common colors as [r, g, b], from counts of everything that's going to be drawn.
+export function buildPalette(counts: Uint32Array): [number, number, number][] {
+    const keys = [...counts.keys()].filter((key) => counts[key]! > 0)
+    keys.sort((a, b) => counts[b]! - counts[a]!)
+    const palette = keys.slice(0, 256).map((key): [number, number, number] => [
+        expandChannel(key >> 10),
+        expandChannel((key >> 5) & 31),
+        expandChannel(key & 31),
+    ])
+    return palette.length > 0 ? palette : [[255, 255, 255]]
+}
+
+function colorKey(r: number, g: number, b: number): number {
+    return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+}
+
+function expandChannel(value: number): number {
+    return (value << 3) | (value >> 2)
+}
+
+// Writes bytes into a buffer that grows as needed.
+function createWriter() {
+    let bytes = new Uint8Array(1024)
+    let length = 0
+
+    function byte(value: number) {
+        if (length === bytes.length) {
+            const grown = new Uint8Array(bytes.length * 2)
+            grown.set(bytes)
+            bytes = grown
+        }
+        bytes[length++] = value
+    }
+
+    return {
+        byte,
+        short(value: number) {
+            byte(value & 0xff)
+            byte((value >> 8) & 0xff)
+        },
+        text(value: string) {
+            for (const char of value) byte(char.charCodeAt(0))
+        },
+        take(): Uint8Array<ArrayBuffer> {
+            const taken = bytes.slice(0, length)
+            length = 0
+            return taken
+        },
+    }
+}
+
+type Writer = ReturnType<typeof createWriter>
+
+// Palette indices compressed with LZW, split into blocks of up to 255 bytes.
+function writeImageData(writer: Writer, indices: Uint8Array) {
+    const minCodeSize = 8
+    const clearCode = 1 << minCodeSize
+    const endCode = clearCode + 1
+
+    let codeSize = minCodeSize + 1
+    let nextCode = endCode + 1
+    let codes = new Map<number, number>()
+
+    let block: number[] = []
+    let bits = 0
+    let bitCount = 0
+
+    function emit(code: number) {
+        bits |= code << bitCount
+        bitCount += codeSize
+        while (bitCount >= 8) {
+            block.push(bits & 0xff)
+            bits >>= 8
+            bitCount -= 8
+            if (block.length === 255) flush()
+        }
+    }
+
+    function flush() {
+        if (block.length === 0) return
+        writer.byte(block.length)
+        for (const value of block) writer.byte(value)
+        block = []
+    }
+
+    writer.byte(minCodeSize)
+    emit(clearCode)
+    let prefix = indices[0]!
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i]!
+        const key = (prefix << 8) | index
+        const code = codes.get(key)
+        if (code !== undefined) {
+            prefix = code
+            continue
+        }
+
+        emit(prefix)
+        if (nextCode === 4096) {
+            // The table's full, so start over
+            emit(clearCode)
+            codes = new Map()
+            codeSize = minCodeSize + 1
+            nextCode = endCode + 1
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++
+            codes.set(key, nextCode++)
+        }
+        prefix = index
+    }
+    emit(prefix)
+    emit(endCode)
+    if (bitCount > 0) block.push(bits & 0xff)
+    flush()
+    writer.byte(0)
+}
+
+interface PendingFrame {
+    x: number
+    y: number
+    width: number
+    height: number
+    indices: Uint8Array
+    delay: number
+}
+
+// Loops forever.
+export function createGifEncoder(width: number, height: number, palette: [number, number, number][]): GifEncoder {
+    const writer = createWriter()
+    const parts: Uint8Array<ArrayBuffer>[] = []
+    // The palette index for each color key, worked out the first time the color comes up
+    const nearest = new Int16Array(1 << 15).fill(-1)
+    let previous: Uint8Array | null = null
+    let pending: PendingFrame | null = null
+
+    writer.text('GIF89a')
+    writer.short(width)
+    writer.short(height)
+    // A global palette of 256 colors, at 8 bits per channel
+    writer.byte(0xf7)
+    writer.byte(0)
+    writer.byte(0)
+    for (let i = 0; i < 256; i++) {
+        const [r, g, b] = palette[i] ?? [0, 0, 0]
+        writer.byte(r)
+        writer.byte(g)
+        writer.byte(b)
+    }
+    writer.byte(0x21)
+    writer.byte(0xff)
+    writer.byte(11)
+    writer.text('NETSCAPE2.0')
+    writer.byte(3)
+    writer.byte(1)
+    writer.short(0)
+    writer.byte(0)
+    parts.push(writer.take())
+
+    function findNearest(r: number, g: number, b: number): number {
+        const key = colorKey(r, g, b)
+        let index = nearest[key]!
+        if (index >= 0) return index
+
+        let best = Infinity
+        for (const [i, [pr, pg, pb]] of palette.entries()) {
+            const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2
+            if (distance < best) {
+                best = distance
+                index = i
+            }
+        }
+        nearest[key] = index
+        return index
+    }
+
+    function writeFrame(frame: PendingFrame) {
+        // Each frame is left in place for the next one to draw over
+        writer.byte(0x21)
+        writer.byte(0xf9)
+        writer.byte(4)
+        writer.byte(0x04)
+        writer.short(Math.min(0xffff, Math.max(2, Math.round(frame.delay / 10))))
+        writer.byte(0)
+        writer.byte(0)
+
+        writer.byte(0x2c)
+        writer.short(frame.x)
+        writer.short(frame.y)
+        writer.short(frame.width)
+        writer.short(frame.height)
+        writer.byte(0)
+        writeImageData(writer, frame.indices)
+        parts.push(writer.take())
+    }
+
+    return {
+        addFrame(pixels, delay) {
+            const indices = new Uint8Array(width * height)
+            for (let i = 0; i < indices.length; i++) {
+                indices[i] = findNearest(pixels[i * 4]!, pixels[i * 4 + 1]!, pixels[i * 4 + 2]!)
+            }
+
+            // Only the rectangle around what changed gets stored
+            let minX = 0, minY = 0, maxX = width - 1, maxY = height - 1
+            if (previous) {
+                minX = width
+                minY = height
+                maxX = -1
+                maxY = -1
+                for (let y = 0; y < height; y++) {
+                    for (let x = 0; x < width; x++) {
+                        const i = y * width + x
+                        if (indices[i] === previous[i]) continue
+                        if (x < minX) minX = x
+                        if (x > maxX) maxX = x
+                        if (y < minY) minY = y
+                        if (y > maxY) maxY = y
+                    }
+                }
+            }
+            previous = indices
+
+            // Nothing changed, so the last frame just stays up longer
+            if (maxX < 0 && pending) {
+                pending.delay += delay
+                return
+            }
+            if (pending) writeFrame(pending)
+
+            const frameWidth = maxX - minX + 1
+            const frameHeight = maxY - minY + 1
+            const cropped = new Uint8Array(frameWidth * frameHeight)
+            for (let y = 0; y < frameHeight; y++) {
+                const start = (minY + y) * width + minX
+                cropped.set(indices.subarray(start, start + frameWidth), y * frameWidth)
+            }
+            pending = { x: minX, y: minY, width: frameWidth, height: frameHeight, indices: cropped, delay }
+        },
+
+        finish() {
+            if (pending) writeFrame(pending)
+            pending = null
+            writer.byte(0x3b)
+            parts.push(writer.take())
+            return new Blob(parts, { type: 'image/gif' })
+        },
+    }
+}
@@ -0,0 +1,103 @@
+import { compositeLayer, getHistoryBounds, renderAction, type Action, type ImageCache } from '../utils'
+import { getLayerId, getVisibleActions, type Layer } from '../layers/layers'
+
+// A timelapse draws the drawing again one action at a time, in the order they are in the history.
+// Actions are spaced out by when they were drawn, with long breaks cut short. Actions from before
+// there were times are spaced out evenly.
+
+export const replaySpeeds = [1, 2, 4, 8, 16]
+
+// In milliseconds, at normal speed.
+const maxGap = 1000
+const untimedGap = 150
+// How long the finished drawing stays up at the end, in milliseconds whatever the speed.
+export const replayHold = 1500
+// Blank space around the drawing, in pixels.
+const replayPadding = 20
+
+// When each action shows up, in milliseconds from the start at normal speed.
+export function getReplayTimes(actions: Action[]): number[] {
+    const times: number[] = []
+    let elapsed = 0
+    for (const [i, action] of actions.entries()) {
+        const previous = actions[i - 1]
+        if (previous) {
+            const gap = action.time !== undefined && previous.time !== undefined ? action.time - previous.time : untimedGap
+            elapsed += Math.min(maxGap, Math.max(0, gap))
+        }
+        times.push(elapsed)
+    }
+    return times
+}
+
+// How many actions have shown up `elapsed` milliseconds in.
+export function countShownAt(times: number[], elapsed: number): number {
+    let low = 0
+    let high = times.length
+    while (low < high) {
+        const middle = (low + high) >> 1
+        if (times[middle]! <= elapsed) low = middle + 1
+        else high = middle
+    }
+    return low
+}
+
+export interface ReplayCanvas {
+    canvas: OffscreenCanvas
+    // The visible actions, in the order they show up.
+    actions: Action[]
+    // Draws the drawing with its first `count` actions, carrying on from the last frame if it can.
+    drawFrame(count: number): void
+}
+
+// Fits the whole drawing in a canvas no bigger than `maxSize` each way, with a white background.
+export function createReplayCanvas(history: Action[], layers: Layer[], imageCache: ImageCache, maxSize: number): ReplayCanvas {
+    const actions = getVisibleActions(history, layers)
+    const bounds = getHistoryBounds(actions)
+    const contentWidth = Math.max(1, bounds.maxX - bounds.minX)
+    const contentHeight = Math.max(1, bounds.maxY - bounds.minY)
+    const scale = Math.min(2, (maxSize - replayPadding * 2) / Math.max(contentWidth, contentHeight))
+    // Video encoders want even sizes
+    const width = Math.ceil((contentWidth * scale + replayPadding * 2) / 2) * 2
+    const height = Math.ceil((contentHeight * scale + replayPadding * 2) / 2) * 2
+
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')!
+
+    // Each layer is drawn on its own and stacked with `compositeLayer`, like the canvas
+    const layerIds = actions.map((action) => getLayerId(action, layers))
+    const layerCanvases = new Map<string, OffscreenCanvasRenderingContext2D>()
+    for (const layer of layers) {
+        if (!layer.visible || !layerIds.includes(layer.id)) continue
+        const layerCtx = new OffscreenCanvas(width, height).getContext('2d')!
+        layerCtx.setTransform(scale, 0, 0, scale, replayPadding - bounds.minX * scale, replayPadding - bounds.minY * scale)
+        layerCanvases.set(layer.id, layerCtx)
+    }
+    let drawn = 0
+
+    return {
+        canvas,
+        actions,
+        drawFrame(count) {
+            if (count < drawn) {
+                for (const layerCtx of layerCanvases.values()) {
+                    layerCtx.save()
+                    layerCtx.setTransform(1, 0, 0, 1, 0, 0)
+                    layerCtx.clearRect(0, 0, width, height)
+                    layerCtx.restore()
+                }
+                drawn = 0
+            }
+            for (; drawn < Math.min(count, actions.length); drawn++) {
+                renderAction(layerCanvases.get(layerIds[drawn]!)!, actions[drawn]!, imageCache)
+            }
+
+            ctx.fillStyle = '#ffffff'
+            ctx.fillRect(0, 0, width, height)
+            for (const layer of layers) {
+                const layerCtx = layerCanvases.get(layer.id)
+                if (layerCtx) compositeLayer(ctx, layerCtx.canvas, layer.opacity)
+            }
+        },
+    }
+}
@@ -0,0 +1,69 @@
+import { closeImages, loadImages, type Action, type ImageCache } from '../utils'
+import type { Layer } from '../layers/layers'
+import type { RenderOptions } from '../rendering/render'
+import { countShownAt, createReplayCanvas, getReplayTimes, replayHold } from './replay'
+
+// WebM timelapses are recorded from a canvas on the page as it plays, since that's the only way
+// browsers can make video without a library. Recording takes as long as the timelapse does.
+
+// In pixels each way.
+const webmSize = 720
+// In milliseconds, for 30 frames a second.
+const frameInterval = 1000 / 30
+
+const mimeTypes = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export function canRecordWebm(): boolean {
+    return typeof MediaRecorder !== 'undefined' && mimeTypes.some((type) => MediaRecorder.isTypeSupported(type))
+}
+
+export async function recordWebm(history: Action[], layers: Layer[], speed: number, options: RenderOptions = {}): Promise<Blob> {
+    const { signal, onProgress } = options
+    const mimeType = mimeTypes.find((type) => MediaRecorder.isTypeSupported(type))
+    if (!mimeType) throw new Error('WebM recording isn\'t supported')
+
+    const imageCache: ImageCache = new Map()
+    await loadImages(history, imageCache)
+    try {
+        const replay = createReplayCanvas(history, layers, imageCache, webmSize)
+        const times = getReplayTimes(replay.actions)
+        const duration = (times.at(-1) ?? 0) / speed + replayHold
+
+        const canvas = document.createElement('canvas')
+        canvas.width = replay.canvas.width
+        canvas.height = replay.canvas.height
+        const ctx = canvas.getContext('2d')!
+        // Frames only get recorded when asked for, so pauses don't drop any
+        const stream = canvas.captureStream(0)
+        const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+
+        const chunks: Blob[] = []
+        const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 })
+        recorder.addEventListener('dataavailable', (event) => chunks.push(event.data))
+        const stopped = new Promise((resolve) => recorder.addEventListener('stop', resolve, { once: true }))
+        recorder.start()
+
+        try {
+            const start = performance.now()
+            while (true) {
+                const elapsed = performance.now() - start
+                replay.drawFrame(countShownAt(times, elapsed * speed))
+                ctx.drawImage(replay.canvas, 0, 0)
+                track.requestFrame()
+                onProgress?.(Math.min(1, elapsed / duration))
+                if (elapsed >= duration) break
+
+                await new Promise((resolve) => setTimeout(resolve, frameInterval))
+                signal?.throwIfAborted()
+            }
+        } finally {
+            recorder.stop()
+            await stopped
+            for (const track of stream.getTracks()) track.stop()
+        }
+
+        return new Blob(chunks, { type: 'video/webm' })
+    } finally {
+        closeImages(imageCache)
+    }
+}
@@ -0,0 +1,62 @@
+import type { Action, Brush, Point } from '../utils'
+import type { Layer } from '../layers/layers'
+import type { Frame } from '../frames/frames'
+
+// Messages exchanged over a room's WebSocket, as JSON. The server is the source of truth for the
+// order of actions; clients draw their own actions immediately and reconcile when they echo back.
+
+// Everything needed to draw someone's stroke before it's finished.
+export interface StrokeStyle {
+    brush: Brush
+    size: number
+    color?: string
+    opacity?: number
+    preset?: string
+    // The sticker being placed, and how much it's turned in radians.
+    sticker?: string
+    rotation?: number
+}
+
+export interface Presence {
+    // World coordinates, or null when the pointer isn't over the canvas.
+    cursor: { x: number, y: number } | null
+    stroke: (StrokeStyle & { points: Point[] }) | null
+}
+
+export type ClientMessage =
+    | { type: 'commit', action: Action }
+    // Changes an action in place, keeping its id.
+    | { type: 'update', action: Action }
+    | { type: 'remove', id: string }
+    // Replaces the whole list of layers, which anyone can change.
+    | { type: 'layers', layers: Layer[] }
+    // The same for the list of frames.
+    | { type: 'frames', frames: Frame[] }
+    // Sent before the first action that uses the image, see `images.ts`.
+    | { type: 'image', id: string, dataUrl: string }
+    | { type: 'presence', presence: Presence }
+
+export type ServerMessage =
+    // Sent once after connecting, with everything a late joiner needs.
+    | {
+        type: 'init',
+        participantId: string,
+        actions: Action[],
+        ownActionIds: string[],
+        layers: Layer[],
+        frames: Frame[],
+        images: Record<string, string>,
+        peers: Record<string, Presence>,
+    }
+    | { type: 'commit', action: Action }
+    | { type: 'update', action: Action }
+    | { type: 'remove', id: string }
+    | { type: 'layers', layers: Layer[] }
+    | { type: 'frames', frames: Frame[] }
+    | { type: 'image', id: string, dataUrl: string }
+    | { type: 'presence', participantId: string, presence: Presence }
+    | { type: 'leave', participantId: string }
+
+export function isRoomId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{1,64}$/.test(id)
+}
@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { nanoid } from 'nanoid'
+import type { Action } from '../utils'
+import type { Layer } from '../layers/layers'
+import type { Frame } from '../frames/frames'
+import { registerImage, registerImages } from '../images/images'
+import type { ClientMessage, Presence, ServerMessage } from './protocol'
+
+export interface RoomCallbacks {
+    setHistory: Dispatch<SetStateAction<Action[]>>
+    setLayers: (layers: Layer[]) => void
+    setFrames: (frames: Frame[]) => void
+    // Called whenever a peer's cursor or in-progress stroke changes.
+    onPeersChange: () => void
+}
+
+export interface RoomConnection {
+    roomId: string
+    peers: Map<string, Presence>
+    commit(action: Action): void
+    update(action: Action): void
+    remove(id: string): void
+    setLayers(layers: Layer[]): void
+    setFrames(frames: Frame[]): void
+    addImage(id: string, dataUrl: string): void
+    // Whether an action was made by this browser, which is what undo is limited to.
+    isOwn(id: string): boolean
+    setPresence(presence: Presence): void
+    close(): void
+}
+
+const presenceInterval = 50
+const maxReconnectDelay = 10_000
+
+export function getRoomIdFromPath(pathname: string): string | null {
+    return pathname.match(/^\/r\/([A-Za-z0-9_-]{1,64})\/?$/)?.[1] ?? null
+}
+
+function getClientId(): string {
+    let clientId = localStorage.getItem('client-id')
+    if (!clientId) {
+        clientId = nanoid()
+        localStorage.setItem('client-id', clientId)
+    }
+    return clientId
+}
+
+// Puts an action from someone else into our history. Our own actions that the server hasn't
+// confirmed yet always come last, so once everything is confirmed every client agrees on the order.
+function insertRemoteAction(history: Action[], action: Action, pending: Map<string, Action>): Action[] {
+    if (history.some((existing) => existing.id === action.id)) return history
+    const firstPending = history.findIndex((existing) => pending.has(existing.id))
+    if (firstPending === -1) return [...history, action]
+    return history.toSpliced(firstPending, 0, action)
+}
+
+export function connectToRoom(roomId: string, callbacks: RoomCallbacks): RoomConnection {
+    const clientId = getClientId()
+    const own = new Set<string>()
+    const pending = new Map<string, Action>()
+    // Changes made while disconnected, by action id, sent once we're back. Null means it was removed.
+    const unsent = new Map<string, Action | null>()
+    const peers = new Map<string, Presence>()
+    // Images we've added, in case the server missed them
+    const ownImages = new Map<string, string>()
+
+    let socket: WebSocket | null = null
+    let closed = false
+    let reconnectDelay = 500
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+    let latestPresence: Presence | null = null
+    let lastPresenceSent = 0
+    let presenceTimer: ReturnType<typeof setTimeout> | null = null
+
+    function send(message: ClientMessage) {
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+    }
+
+    function sendChange(id: string, action: Action | null) {
+        if (socket?.readyState !== WebSocket.OPEN) {
+            unsent.set(id, action)
+        } else if (action) {
+            send({ type: 'update', action })
+        } else {
+            send({ type: 'remove', id })
+        }
+    }
+
+    function sendPresence() {
+        presenceTimer = null
+        if (!latestPresence) return
+        lastPresenceSent = Date.now()
+        send({ type: 'presence', presence: latestPresence })
+    }
+
+    function onMessage(message: ServerMessage) {
+        if (message.type === 'init') {
+            for (const id of message.ownActionIds) own.add(id)
+
+            // Anything the server already has isn't pending anymore, the rest gets sent again
+            const confirmed = new Set(message.actions.map((action) => action.id))
+            for (const id of pending.keys()) {
+                if (confirmed.has(id)) pending.delete(id)
+            }
+            registerImages(message.images)
+            for (const [id, dataUrl] of ownImages) {
+                if (!(id in message.images)) send({ type: 'image', id, dataUrl })
+            }
+
+            // Changes made while we were away go on top of what the server has, and get sent along
+            const actions = message.actions.flatMap((action) => {
+                if (!unsent.has(action.id)) return [action]
+                const changed = unsent.get(action.id)
+                return changed ? [changed] : []
+            })
+            const changes = [...unsent].filter(([id]) => confirmed.has(id))
+            unsent.clear()
+            for (const [id, action] of changes) sendChange(id, action)
+
+            callbacks.setHistory([...actions, ...pending.values()])
+            for (const action of pending.values()) send({ type: 'commit', action })
+            callbacks.setLayers(message.layers)
+            callbacks.setFrames(message.frames)
+
+            peers.clear()
+            for (const [participantId, presence] of Object.entries(message.peers)) {
+                if (participantId !== message.participantId) peers.set(participantId, presence)
+            }
+            callbacks.onPeersChange()
+        } else if (message.type === 'commit') {
+            if (pending.delete(message.action.id)) return
+            callbacks.setHistory((history) => insertRemoteAction(history, message.action, pending))
+        } else if (message.type === 'update') {
+            const { action } = message
+            callbacks.setHistory((history) => history.map((existing) => existing.id === action.id ? action : existing))
+        } else if (message.type === 'remove') {
+            pending.delete(message.id)
+            own.delete(message.id)
+            callbacks.setHistory((history) => history.filter((action) => action.id !== message.id))
+        } else if (message.type === 'layers') {
+            callbacks.setLayers(message.layers)
+        } else if (message.type === 'frames') {
+            callbacks.setFrames(message.frames)
+        } else if (message.type === 'image') {
+            registerImage(message.id, message.dataUrl)
+        } else if (message.type === 'presence') {
+            peers.set(message.participantId, message.presence)
+            callbacks.onPeersChange()
+        } else if (message.type === 'leave') {
+            peers.delete(message.participantId)
+            callbacks.onPeersChange()
+        }
+    }
+
+    function connect() {
+        const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:'
+        const url = `${protocol}//${location.host}/r/${encodeURIComponent(roomId)}/socket?client=${clientId}`
+        socket = new WebSocket(url)
+
+        socket.onopen = () => {
+            reconnectDelay = 500
+        }
+        socket.onmessage = (event) => {
+            onMessage(JSON.parse(event.data))
+        }
+        socket.onclose = () => {
+            socket = null
+            peers.clear()
+            callbacks.onPeersChange()
+            if (closed) return
+
+            reconnectTimer = setTimeout(connect, reconnectDelay)
+            reconnectDelay = Math.min(reconnectDelay * 2, maxReconnectDelay)
+        }
+    }
+
+    connect()
+
+    return {
+        roomId,
+        peers,
+        commit(action) {
+            // Redoing something removed while disconnected means it stays
+            unsent.delete(action.id)
+            own.add(action.id)
+            pending.set(action.id, action)
+            send({ type: 'commit', action })
+        },
+        update(action) {
+            // Something that hasn't been confirmed yet gets sent again as it is now
+            if (pending.has(action.id)) pending.set(action.id, action)
+            sendChange(action.id, action)
+        },
+        remove(id) {
+            // The server might have it even if it hasn't said so yet
+            pending.delete(id)
+            sendChange(id, null)
+        },
+        setLayers(layers) {
+            send({ type: 'layers', layers })
+        },
+        setFrames(frames) {
+            send({ type: 'frames', frames })
+        },
+        addImage(id, dataUrl) {
+            ownImages.set(id, dataUrl)
+            send({ type: 'image', id, dataUrl })
+        },
+        isOwn(id) {
+            return own.has(id)
+        },
+        setPresence(presence) {
+            latestPresence = presence
+            if (presenceTimer) return
+            const wait = presenceInterval - (Date.now() - lastPresenceSent)
+            if (wait <= 0) {
+                sendPresence()
+            } else {
+                presenceTimer = setTimeout(sendPresence, wait)
+            }
+        },
+        close() {
+            closed = true
+            if (reconnectTimer) clearTimeout(reconnectTimer)
+            if (presenceTimer) clearTimeout(presenceTimer)
+            socket?.close()
+        },
+    }
+}
+
+// Connects to a room for as long as the component is mounted. Callbacks can change every render.
+export function useRoom(roomId: string | null, callbacks: RoomCallbacks): RoomConnection | null {
+    const latestCallbacks = useRef(callbacks)
+    latestCallbacks.current = callbacks
+
+    const [room, setRoom] = useState<RoomConnection | null>(null)
+
+    useEffect(() => {
+        if (!roomId) return
+
+        const connection = connectToRoom(roomId, {
+            setHistory: (value) => latestCallbacks.current.setHistory(value),
+            setLayers: (layers) => latestCallbacks.current.setLayers(layers),
+            setFrames: (frames) => latestCallbacks.current.setFrames(frames),
+            onPeersChange: () => latestCallbacks.current.onPeersChange(),
+        })
+        setRoom(connection)
+
+        return () => {
+            connection.close()
+            setRoom(null)
+        }
+    }, [roomId])
+
+    return room
+}
@@ -0,0 +1,269 @@
+import { nanoid } from 'nanoid'
+import { getActionBounds, pathToSvgD, type Action } from '../utils'
+import { getShapePath, setShapeLineStyle } from '../shapes'
+
+export interface Bounds {
+    minX: number
+    minY: number
+    maxX: number
+    maxY: number
+}
+
+// Scales around an origin, then moves. Everything is in world coordinates.
+export interface SelectionTransform {
+    originX: number
+    originY: number
+    scale: number
+    dx: number
+    dy: number
+}
+
+// How big the corner handles are on screen, in pixels.
+export const handleSize = 10
+
+// Erasers are invisible, so there's nothing to grab.
+export function isSelectable(action: Action): boolean {
+    return action.kind !== 'eraser'
+}
+
+let hitContext: CanvasRenderingContext2D | null = null
+
+function getHitContext(): CanvasRenderingContext2D {
+    hitContext ??= document.createElement('canvas').getContext('2d')!
+    return hitContext
+}
+
+function boundsContain(bounds: Bounds, x: number, y: number, tolerance: number): boolean {
+    return x >= bounds.minX - tolerance && x <= bounds.maxX + tolerance
+        && y >= bounds.minY - tolerance && y <= bounds.maxY + tolerance
+}
+
+// Whether a world point is on what an action actually draws, give or take `tolerance`.
+export function hitTestAction(action: Action, x: number, y: number, tolerance: number): boolean {
+    if (!boundsContain(getActionBounds(action), x, y, tolerance)) return false
+
+    const ctx = getHitContext()
+    if (action.kind === 'pen' || action.kind === 'eraser') {
+        const path = new Path2D(pathToSvgD(action.path))
+        ctx.lineWidth = tolerance * 2
+        return ctx.isPointInPath(path, x, y) || ctx.isPointInStroke(path, x, y)
+    }
+    if (action.kind === 'shape') {
+        setShapeLineStyle(ctx, action)
+        ctx.lineWidth = action.size + tolerance * 2
+        return ctx.isPointInStroke(getShapePath(action), x, y)
+    }
+    // Everything else is a box
+    return true
+}
+
+// The topmost action at a world point.
+export function findActionAt(
+    history: Action[],
+    x: number,
+    y: number,
+    tolerance: number,
+    canSelect: (action: Action) => boolean = isSelectable,
+): Action | null {
+    for (let i = history.length - 1; i >= 0; i--) {
+        const action = history[i]!
+        if (canSelect(action) && hitTestAction(action, x, y, tolerance)) return action
+    }
+    return null
+}
+
+// Everything within `tolerance` of the line between two world points.
+export function findActionsAlong(
+    history: Action[],
+    from: { x: number, y: number },
+    to: { x: number, y: number },
+    tolerance: number,
+    canSelect: (action: Action) => boolean = isSelectable,
+): Action[] {
+    // Check often enough along the line that nothing thin can slip between two checks
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(tolerance / 2, 0.5)))
+    return history.filter((action) => {
+        if (!canSelect(action)) return false
+        for (let i = 0; i <= steps; i++) {
+            const t = i / steps
+            if (hitTestAction(action, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, tolerance)) return true
+        }
+        return false
+    })
+}
+
+// Points along what an action draws, for checking whether a lasso goes around it.
+function getOutlinePoints(action: Action): [number, number][] {
+    if (action.kind === 'pen' || action.kind === 'eraser') return action.path
+
+    if (action.kind === 'shape') {
+        const { x1, y1, x2, y2 } = action
+        const samples = 24
+        const points: [number, number][] = []
+        for (let i = 0; i <= samples; i++) {
+            const t = i / samples
+            if (action.shape === 'ellipse') {
+                const angle = t * Math.PI * 2
+                points.push([
+                    (x1 + x2) / 2 + Math.cos(angle) * Math.abs(x2 - x1) / 2,
+                    (y1 + y2) / 2 + Math.sin(angle) * Math.abs(y2 - y1) / 2,
+                ])
+            } else if (action.shape === 'rectangle') {
+                points.push([x1 + (x2 - x1) * t, y1], [x1 + (x2 - x1) * t, y2], [x1, y1 + (y2 - y1) * t], [x2, y1 + (y2 - y1) * t])
+            } else {
+                points.push([x1 + (x2 - x1) * t, y1 + (y2 - y1) * t])
+            }
+        }
+        return points
+    }
+
+    const { minX, minY, maxX, maxY } = getActionBounds(action)
+    return [[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY], [(minX + maxX) / 2, (minY + maxY) / 2]]
+}
+
+function isInPolygon([x, y]: [number, number], polygon: { x: number, y: number }[]): boolean {
+    let inside = false
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i]!
+        const b = polygon[j]!
+        if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside
+    }
+    return inside
+}
+
+// Everything with some part of it inside the lasso.
+export function findActionsInLasso(
+    history: Action[],
+    lasso: { x: number, y: number }[],
+    canSelect: (action: Action) => boolean = isSelectable,
+): Action[] {
+    if (lasso.length < 3) return []
+    return history.filter((action) => canSelect(action)
+        && getOutlinePoints(action).some((point) => isInPolygon(point, lasso)))
+}
+
+export function getSelectionBounds(actions: Action[]): Bounds | null {
+    if (actions.length === 0) return null
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+    for (const action of actions) {
+        const bounds = getActionBounds(action)
+        minX = Math.min(minX, bounds.minX)
+        minY = Math.min(minY, bounds.minY)
+        maxX = Math.max(maxX, bounds.maxX)
+        maxY = Math.max(maxY, bounds.maxY)
+    }
+    return { minX, minY, maxX, maxY }
+}
+
+function corners(bounds: Bounds): [number, number][] {
+    return [[bounds.minX, bounds.minY], [bounds.maxX, bounds.minY], [bounds.maxX, bounds.maxY], [bounds.minX, bounds.maxY]]
+}
+
+// The corner handle at a world point, as the corner diagonally across from it, which is what
+// scaling happens around.
+export function findHandleAt(bounds: Bounds, x: number, y: number, zoom: number): [number, number] | null {
+    const reach = handleSize / zoom
+    const points = corners(bounds)
+    const index = points.findIndex(([cx, cy]) => Math.abs(x - cx) <= reach && Math.abs(y - cy) <= reach)
+    return index === -1 ? null : points[(index + 2) % 4]!
+}
+
+export function transformPoint(transform: SelectionTransform, x: number, y: number): [number, number] {
+    return [
+        transform.originX + (x - transform.originX) * transform.scale + transform.dx,
+        transform.originY + (y - transform.originY) * transform.scale + transform.dy,
+    ]
+}
+
+export function transformBounds(transform: SelectionTransform, bounds: Bounds): Bounds {
+    const [x1, y1] = transformPoint(transform, bounds.minX, bounds.minY)
+    const [x2, y2] = transformPoint(transform, bounds.maxX, bounds.maxY)
+    return { minX: Math.min(x1, x2), minY: Math.min(y1, y2), maxX: Math.max(x1, x2), maxY: Math.max(y1, y2) }
+}
+
+// The same action moved and scaled, keeping its id.
+export function transformAction(action: Action, transform: SelectionTransform): Action {
+    const { scale } = transform
+    if (action.kind === 'pen' || action.kind === 'eraser') {
+        return { ...action, path: action.path.map(([x, y]) => transformPoint(transform, x, y)) }
+    }
+    if (action.kind === 'shape') {
+        const [x1, y1] = transformPoint(transform, action.x1, action.y1)
+        const [x2, y2] = transformPoint(transform, action.x2, action.y2)
+        return { ...action, x1, y1, x2, y2, size: action.size * scale }
+    }
+    if (action.kind === 'snapshot' || action.kind === 'image') {
+        const [x, y] = transformPoint(transform, action.x, action.y)
+        return { ...action, x, y, width: action.width * scale, height: action.height * scale }
+    }
+    if (action.kind === 'text') {
+        const [x, y] = transformPoint(transform, action.x, action.y)
+        return { ...action, x, y, size: action.size * scale }
+    }
+    if (action.kind === 'sticker') {
+        const [x, y] = transformPoint(transform, action.x, action.y)
+        return { ...action, x, y, scale: action.scale * scale }
+    }
+    return action
+}
+
+// Copies with new ids, moved over by an offset.
+export function cloneActions(actions: Action[], dx: number, dy: number): Action[] {
+    return actions.map((action) => ({
+        ...transformAction(action, { originX: 0, originY: 0, scale: 1, dx, dy }),
+        id: nanoid(),
+    }))
+}
+
+export function renderSelection(ctx: CanvasRenderingContext2D, bounds: Bounds, zoom: number) {
+    ctx.globalCompositeOperation = 'source-over'
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = '#2f9e44'
+    ctx.lineWidth = 1.5 / zoom
+    ctx.setLineDash([6 / zoom, 4 / zoom])
+    ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY)
+    ctx.setLineDash([])
+
+    const size = handleSize / zoom
+    ctx.fillStyle = '#ffffff'
+    for (const [x, y] of corners(bounds)) {
+        ctx.fillRect(x - size / 2, y - size / 2, size, size)
+        ctx.strokeRect(x - size / 2, y - size / 2, size, size)
+    }
+}
+
+// Tints what an action draws, to show it's about to be erased.
+export function renderHighlight(ctx: CanvasRenderingContext2D, action: Action) {
+    ctx.globalCompositeOperation = 'source-over'
+    ctx.globalAlpha = 1
+    ctx.fillStyle = 'rgba(240, 62, 62, 0.5)'
+    ctx.strokeStyle = 'rgba(240, 62, 62, 0.5)'
+
+    if (action.kind === 'pen' || action.kind === 'eraser') {
+        ctx.fill(new Path2D(pathToSvgD(action.path)))
+    } else if (action.kind === 'shape') {
+        setShapeLineStyle(ctx, action)
+        ctx.stroke(getShapePath(action))
+    } else {
+        const { minX, minY, maxX, maxY } = getActionBounds(action)
+        ctx.fillRect(minX, minY, maxX - minX, maxY - minY)
+    }
+}
+
+export function renderLasso(ctx: CanvasRenderingContext2D, lasso: { x: number, y: number }[], zoom: number) {
+    if (lasso.length < 2) return
+    ctx.globalCompositeOperation = 'source-over'
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = '#2f9e44'
+    ctx.fillStyle = 'rgba(47, 158, 68, 0.08)'
+    ctx.lineWidth = 1.5 / zoom
+    ctx.setLineDash([6 / zoom, 4 / zoom])
+
+    ctx.beginPath()
+    ctx.moveTo(lasso[0]!.x, lasso[0]!.y)
+    for (const point of lasso.slice(1)) ctx.lineTo(point.x, point.y)
+    ctx.closePath()
+    ctx.fill()
+    ctx.stroke()
+    ctx.setLineDash([])
+}
@@ -1,10 +1,39 @@
-import { serve } from 'bun'
+import { serve, type Server } from 'bun'
 import index from './index.html'
 import { readdir } from 'node:fs/promises'
-import { Resend } from 'resend'
 import { z } from 'zod'
+import { createMailTransportFromEnv } from './server/mail'
+import { renderShareEmail, siteUrl } from './server/emailTemplates'
+import { consumeDrawingUploadLimits, consumeShareLimits, createRateLimitStoreFromEnv, type LimitResult } from './server/rateLimit'
+import { createDrawingId, createDrawingStoreFromEnv, drawingImageExtensions, isDrawingImageType } from './server/drawings'
+import { renderDrawingPage } from './server/drawingPage'
+import { canJoinRoom, createRoomSocketData, createRoomWebSocketHandler, type RoomSocketData } from './server/rooms'
+import { listStickers } from './server/stickers'
+import { isRoomId } from './rooms/protocol'
+import { stickerUrl } from './stickers/stickers'
+import { actionSchema, imagesSchema } from './jetchFile'
 
-const resend = new Resend(Bun.env.RESEND_API_KEY)
+const mail = createMailTransportFromEnv()
+const rateLimits = createRateLimitStoreFromEnv()
+const drawings = createDrawingStoreFromEnv()
+
+const isDevelopment = process.env.NODE_ENV !== 'production'
+
+const maxImageBytes = 10 * 1024 * 1024
+const maxActionsBytes = 20 * 1024 * 1024
+const maxImagesBytes = 20 * 1024 * 1024
+
+// Workers don't get bundled along with the page, so the rendering worker is bundled on its own.
+// It's bundled again on every request while developing, so changes to it show up.
+function bundleRenderWorker() {
+    return Bun.build({
+        entrypoints: [`${import.meta.dir}/rendering/renderWorker.ts`],
+        target: 'browser',
+        minify: !isDevelopment,
+        define: { 'process.env.NODE_ENV': JSON.stringify(isDevelopment ? 'development' : 'production') },
+    })
+}
+const renderWorker = isDevelopment ? null : bundleRenderWorker()
 
 const server = serve({
     routes: {
@@ -18,7 +47,25 @@ const server = serve({
         '/photographs/:filename': (req) => {
             return new Response(Bun.file(`./photographs/${req.params.filename}`))
         },
-        '/share': async (req) => {
+        '/stickers': async () => {
+            const stickers = await listStickers('./stickers')
+            return Response.json(stickers.map(({ id }) => ({ id, url: stickerUrl(id) })))
+        },
+        '/stickers/:id': async (req) => {
+            const sticker = (await listStickers('./stickers')).find(({ id }) => id === req.params.id)
+            if (!sticker) return new Response('Sticker not found', { status: 404 })
+            return new Response(Bun.file(`./stickers/${sticker.filename}`), {
+                headers: { 'Cache-Control': 'public, max-age=86400' },
+            })
+        },
+        '/renderWorker.js': async () => {
+            const build = await (renderWorker ?? bundleRenderWorker())
+            if (!build.success) throw new AggregateError(build.logs, 'Failed to bundle the rendering worker')
+            return new Response(build.outputs[0], {
+                headers: { 'Content-Type': 'text/javascript; charset=utf-8' },
+            })
+        },
+        '/share': async (req, server) => {
             if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 })
             
             try {
@@ -27,8 +74,10 @@ const server = serve({
                 const emailsJson = formData.get('emails')
                 const lexi = formData.get('lexi') === 'true'
                 const image = formData.get('image')
+                const drawingId = formData.get('drawingId')
 
-                if (typeof you !== 'string' || typeof emailsJson !== 'string' || !(image instanceof Blob)) {
+                if (typeof you !== 'string' || typeof emailsJson !== 'string'
+                    || !(image instanceof Blob || typeof drawingId === 'string')) {
                     return new Response('Invalid form data', { status: 400 })
                 }
                 you = you.trim()
@@ -36,40 +85,55 @@ const server = serve({
                     return new Response('Invalid name', { status: 400 })
                 }
 
-                const emails = JSON.parse(emailsJson)
-                if (lexi) emails.push('jetch@kognise.dev')
-
                 const emailSchema = z.array(z.email())
-                const result = emailSchema.safeParse(emails)
+                const result = emailSchema.safeParse(parseJson(emailsJson))
 
                 if (!result.success) {
                     return new Response('You entered an invalid email address', { status: 400 })
                 }
 
-                const cid = 'drawing'
-                const { error } = await resend.emails.send({
-                    from: 'jetch sharing <sharing@jetch.kognise.dev>',
-                    to: result.data,
-                    subject: `hi hello. ${you} has a drawing for you.`,
-                    replyTo: 'jetch@kognise.dev',
-                    html: `
-                        <p>HELLO!</p>
-                        <p><strong>${you}</strong> drew this and sent it to you:</p>
-                        <p><img src='cid:${cid}'></p>
-                        <p>(you, too, can send your friends random sketches, with the power of ✨ <a href='https://jetch.kognise.dev'>jetch</a>!)</p>
-                        <p style='font-size: 0.8em;'>((if this is spam please reply to this email and i'll deal with it, very sorry.))</p>
-                    `,
-                    attachments: [
-                        {
-                            filename: 'drawing.png',
-                            contentId: cid,
-                            contentType: 'image/png',
-                            content: Buffer.from(await image.arrayBuffer()),
-                        }
-                    ],
+                // Hosted drawings are linked to instead of attached
+                const hosted = typeof drawingId === 'string' ? await drawings.get(drawingId) : null
+                if (typeof drawingId === 'string' && !hosted) {
+                    return new Response('That drawing doesn\'t exist', { status: 404 })
+                }
+
+                const limit = consumeShareLimits(rateLimits, {
+                    ip: getClientIp(req, server),
+                    sender: you,
+                    recipients: result.data,
                 })
+                if (!limit.allowed) return tooManyRequests(limit, 'Too many emails, slow down')
+
+                const to = lexi ? [...result.data, 'jetch@kognise.dev'] : result.data
 
-                if (error) {
+                const cid = 'drawing'
+                const drawingUrl = hosted && `${getPublicUrl(req)}/d/${hosted.id}`
+                const imageType = image instanceof Blob && isDrawingImageType(image.type) ? image.type : 'image/png'
+                const attachments = image instanceof Blob && !hosted ? [
+                    {
+                        filename: `drawing.${drawingImageExtensions[imageType]}`,
+                        contentId: cid,
+                        contentType: imageType,
+                        content: Buffer.from(await image.arrayBuffer()),
+                    }
+                ] : []
+                try {
+                    await mail.send({
+                        from: 'jetch sharing <sharing@jetch.kognise.dev>',
+                        to,
+                        replyTo: 'jetch@kognise.dev',
+                        ...renderShareEmail(drawingUrl ? {
+                            sender: you,
+                            imageSrc: `${drawingUrl}/image`,
+                            drawingUrl,
+                        } : {
+                            sender: you,
+                            imageSrc: `cid:${cid}`,
+                        }),
+                        attachments,
+                    })
+                } catch (error) {
                     console.error(error)
                     return new Response('Failed to send email', { status: 500 })
                 }
@@ -80,12 +144,154 @@ const server = serve({
                 return new Response('Internal server error', { status: 500 })
             }
         },
+        '/drawings': async (req, server) => {
+            if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 })
+
+            try {
+                const formData = await req.formData()
+                const image = formData.get('image')
+                const actionsJson = formData.get('actions')
+                const imagesJson = formData.get('images')
+
+                if (!(image instanceof Blob) || !isDrawingImageType(image.type)
+                    || typeof actionsJson !== 'string' || typeof imagesJson !== 'string') {
+                    return new Response('Invalid form data', { status: 400 })
+                }
+                if (image.size > maxImageBytes || actionsJson.length > maxActionsBytes || imagesJson.length > maxImagesBytes) {
+                    return new Response('That drawing is too big', { status: 413 })
+                }
+
+                const actions = z.array(actionSchema).safeParse(parseJson(actionsJson))
+                const images = imagesSchema.safeParse(parseJson(imagesJson))
+                if (!actions.success || !images.success) {
+                    return new Response('Invalid drawing', { status: 400 })
+                }
+                // Images nothing uses aren't stored
+                const used = new Set(actions.data.flatMap((action) => action.kind === 'image' ? [action.image] : []))
+                if (Object.keys(images.data).some((id) => !used.has(id))) {
+                    return new Response('Invalid drawing', { status: 400 })
+                }
+
+                const limit = consumeDrawingUploadLimits(rateLimits, getClientIp(req, server))
+                if (!limit.allowed) return tooManyRequests(limit, 'Too many drawings, slow down')
+
+                const id = createDrawingId()
+                await drawings.save({
+                    id,
+                    image: new Uint8Array(await image.arrayBuffer()),
+                    imageType: image.type,
+                    actionsJson,
+                    imagesJson,
+                    createdAt: Date.now(),
+                })
+
+                return Response.json({ id, url: `${getPublicUrl(req)}/d/${id}` })
+            } catch (error) {
+                console.error(error)
+                return new Response('Internal server error', { status: 500 })
+            }
+        },
+        '/d/:id': async (req) => {
+            const drawing = await drawings.get(req.params.id)
+            if (!drawing) return new Response('Drawing not found', { status: 404 })
+
+            const pageUrl = `${getPublicUrl(req)}/d/${drawing.id}`
+            const imageUrl = `${pageUrl}/image`
+            return new Response(renderDrawingPage({ pageUrl, imageUrl, imageType: drawing.imageType }), {
+                headers: { 'Content-Type': 'text/html; charset=utf-8' },
+            })
+        },
+        '/d/:id/image': async (req) => {
+            const drawing = await drawings.get(req.params.id)
+            if (!drawing) return new Response('Drawing not found', { status: 404 })
+
+            return new Response(drawing.image, {
+                headers: {
+                    'Content-Type': drawing.imageType,
+                    'Cache-Control': 'public, max-age=31536000, immutable',
+                },
+            })
+        },
+        '/d/:id/actions.json': async (req) => {
+            const drawing = await drawings.get(req.params.id)
+            if (!drawing) return new Response('Drawing not found', { status: 404 })
+
+            return new Response(drawing.actionsJson, {
+                headers: { 'Content-Type': 'application/json' },
+            })
+        },
+        '/d/:id/images.json': async (req) => {
+            const drawing = await drawings.get(req.params.id)
+            if (!drawing) return new Response('Drawing not found', { status: 404 })
+
+            return new Response(drawing.imagesJson, {
+                headers: { 'Content-Type': 'application/json' },
+            })
+        },
+        '/r/:roomId/socket': (req, server) => {
+            const clientId = new URL(req.url).searchParams.get('client') ?? ''
+            if (!isRoomId(req.params.roomId) || !isRoomId(clientId)) {
+                return new Response('Invalid room', { status: 400 })
+            }
+            if (!canJoinRoom(req.params.roomId)) {
+                return new Response('Too many rooms right now, try again later', { status: 503 })
+            }
+
+            if (server.upgrade(req, { data: createRoomSocketData(req.params.roomId, clientId) })) return
+            return new Response('Upgrade failed', { status: 400 })
+        },
+        // Renders the share email with a sample drawing so the design can be worked on without
+        // sending anything. Try `?sender=<b>hi</b>` or `?format=text`.
+        '/share/preview': async (req) => {
+            if (!isDevelopment) return new Response('Not found', { status: 404 })
+
+            const url = new URL(req.url)
+            const sample = Buffer.from(await Bun.file('./src/icon.png').arrayBuffer())
+            const email = renderShareEmail({
+                sender: url.searchParams.get('sender') ?? 'steve jobs',
+                imageSrc: `data:image/png;base64,${sample.toString('base64')}`,
+            })
+
+            if (url.searchParams.get('format') === 'text') {
+                return new Response(`Subject: ${email.subject}\n\n${email.text}`)
+            }
+            return new Response(email.html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+        },
     },
-    development: process.env.NODE_ENV !== 'production' && {
+    websocket: createRoomWebSocketHandler((topic, data) => server.publish(topic, data)),
+    development: isDevelopment && {
         hmr: true,
         console: true,
     },
-    hostname: process.env.NODE_ENV === 'production' ? '0.0.0.0' : 'localhost',
+    hostname: isDevelopment ? 'localhost' : '0.0.0.0',
 })
 
 console.log(`🚀 Server running at ${server.url}`)
+console.log(`📮 Sending mail with ${mail.name}`)
+console.log(`🖼️ Storing drawings in ${drawings.name}`)
+
+// Anything that isn't JSON comes back as undefined, so it fails validation like any other bad input.
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text)
+    } catch {
+        return undefined
+    }
+}
+
+function getClientIp(req: Request, server: Server<RoomSocketData>): string {
+    // Fly puts the real client address in a header, everything else is the proxy
+    return req.headers.get('fly-client-ip') ?? server.requestIP(req)?.address ?? 'unknown'
+}
+
+function getPublicUrl(req: Request): string {
+    // Behind Fly the request URL is plain http, so production links always use the real site
+    return Bun.env.PUBLIC_URL ?? (isDevelopment ? new URL(req.url).origin : siteUrl)
+}
+
+function tooManyRequests(limit: Extract<LimitResult, { allowed: false }>, message: string): Response {
+    return new Response(message, {
+        status: 429,
+        headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) },
+    })
+}
@@ -0,0 +1,66 @@
+import { html } from './html'
+import { siteUrl } from './emailTemplates'
+
+export interface DrawingPageData {
+    pageUrl: string
+    imageUrl: string
+    imageType: string
+}
+
+// The view-only page behind a share link. The Open Graph tags are what chat apps use for the preview.
+export function renderDrawingPage(data: DrawingPageData): string {
+    const title = 'a drawing on jetch'
+    const description = 'someone drew this and wanted you to see it.'
+
+    return html`<!doctype html>
+<html lang='en'>
+    <head>
+        <meta charset='UTF-8'>
+        <meta name='viewport' content='width=device-width, initial-scale=1.0'>
+        <title>${title}</title>
+        <link rel='icon' href='/icon.png'>
+        <meta name='description' content='${description}'>
+        <meta property='og:type' content='website'>
+        <meta property='og:site_name' content='jetch'>
+        <meta property='og:title' content='${title}'>
+        <meta property='og:description' content='${description}'>
+        <meta property='og:url' content='${data.pageUrl}'>
+        <meta property='og:image' content='${data.imageUrl}'>
+        <meta property='og:image:type' content='${data.imageType}'>
+        <meta name='twitter:card' content='summary_large_image'>
+        <meta name='twitter:title' content='${title}'>
+        <meta name='twitter:image' content='${data.imageUrl}'>
+        <style>
+            body {
+                margin: 0;
+                min-height: 100vh;
+                display: flex;
+                flex-direction: column;
+                align-items: center;
+                justify-content: center;
+                gap: 20px;
+                padding: 20px;
+                box-sizing: border-box;
+                font-family: 'Comic Sans MS', 'Comic Sans', 'Comic Neue', cursive;
+                background: #f0f1f3;
+            }
+
+            img {
+                max-width: 100%;
+                max-height: 80vh;
+                border-radius: 10px;
+                background: #ffffff;
+                box-shadow: 0px 0px .93px 0px rgba(0, 0, 0, .17), 0px 0px 3.13px 0px rgba(0, 0, 0, .08), 0px 7px 14px 0px rgba(0, 0, 0, .05);
+            }
+
+            a {
+                color: oklch(0.6268 0.2047 150.88);
+            }
+        </style>
+    </head>
+    <body>
+        <img src='${data.imageUrl}' alt='${title}'>
+        <div>(you, too, can draw random sketches, with the power of ✨ <a href='${siteUrl}'>jetch</a>!)</div>
+    </body>
+</html>`.html
+}
@@ -0,0 +1,109 @@
+import { Database } from 'bun:sqlite'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { nanoid } from 'nanoid'
+
+// Drawings are PNGs, apart from flipbooks which are animated GIFs.
+export const drawingImageExtensions = { 'image/png': 'png', 'image/gif': 'gif' } as const
+export type DrawingImageType = keyof typeof drawingImageExtensions
+
+export function isDrawingImageType(type: string): type is DrawingImageType {
+    return Object.hasOwn(drawingImageExtensions, type)
+}
+
+export interface StoredDrawing {
+    id: string
+    image: Uint8Array<ArrayBuffer>
+    imageType: DrawingImageType
+    // The drawing's `Action[]`, kept as the JSON the client sent so it can be opened again later.
+    actionsJson: string
+    // The data URLs of the images its image actions use, by id, also as the JSON the client sent.
+    imagesJson: string
+    createdAt: number
+}
+
+export interface DrawingStore {
+    name: string
+    save(drawing: StoredDrawing): Promise<void>
+    get(id: string): Promise<StoredDrawing | null>
+}
+
+// 21 characters of nanoid is ~126 bits, which is plenty to keep links unguessable.
+export function createDrawingId(): string {
+    return nanoid()
+}
+
+export function isDrawingId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{21}$/.test(id)
+}
+
+export function createDiskDrawingStore(directory: string): DrawingStore {
+    return {
+        name: `disk (${directory})`,
+        async save(drawing) {
+            const drawingDir = join(directory, drawing.id)
+            await mkdir(drawingDir, { recursive: true })
+            await writeFile(join(drawingDir, `drawing.${drawingImageExtensions[drawing.imageType]}`), drawing.image)
+            await writeFile(join(drawingDir, 'drawing.json'), JSON.stringify({
+                createdAt: drawing.createdAt,
+                imageType: drawing.imageType,
+                actions: JSON.parse(drawing.actionsJson),
+                images: JSON.parse(drawing.imagesJson),
+            }))
+        },
+        async get(id) {
+            if (!isDrawingId(id)) return null
+            const drawingDir = join(directory, id)
+            try {
+                const { createdAt, actions, images, imageType } = JSON.parse(await readFile(join(drawingDir, 'drawing.json'), 'utf8'))
+                if (!isDrawingImageType(imageType)) throw new Error(`Unknown image type ${imageType} for drawing ${id}`)
+                const image = await readFile(join(drawingDir, `drawing.${drawingImageExtensions[imageType]}`))
+                return { id, image: new Uint8Array(image), imageType, actionsJson: JSON.stringify(actions), imagesJson: JSON.stringify(images), createdAt }
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+                throw error
+            }
+        },
+    }
+}
+
+export function createSqliteDrawingStore(filename: string): DrawingStore {
+    const db = new Database(filename, { create: true })
+    db.run('PRAGMA journal_mode = WAL')
+    db.run(`
+        CREATE TABLE IF NOT EXISTS drawings (
+            id TEXT PRIMARY KEY,
+            image BLOB NOT NULL,
+            image_type TEXT NOT NULL,
+            actions_json TEXT NOT NULL,
+            images_json TEXT NOT NULL,
+            created_at INTEGER NOT NULL
+        )
+    `)
+    const insertDrawing = db.query('INSERT INTO drawings (id, image, image_type, actions_json, images_json, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+    const selectDrawing = db.query<{
+        image: Uint8Array<ArrayBuffer>
+        image_type: string
+        actions_json: string
+        images_json: string
+        created_at: number
+    }, [string]>('SELECT image, image_type, actions_json, images_json, created_at FROM drawings WHERE id = ?')
+
+    return {
+        name: `sqlite (${filename})`,
+        async save(drawing) {
+            insertDrawing.run(drawing.id, drawing.image, drawing.imageType, drawing.actionsJson, drawing.imagesJson, drawing.createdAt)
+        },
+        async get(id) {
+            const row = selectDrawing.get(id)
+            if (!row) return null
+            if (!isDrawingImageType(row.image_type)) throw new Error(`Unknown image type ${row.image_type} for drawing ${id}`)
+            return { id, image: row.image, imageType: row.image_type, actionsJson: row.actions_json, imagesJson: row.images_json, createdAt: row.created_at }
+        },
+    }
+}
+
+export function createDrawingStoreFromEnv(env: Record<string, string | undefined> = Bun.env): DrawingStore {
+    if (env.DRAWINGS_DB) return createSqliteDrawingStore(env.DRAWINGS_DB)
+    return createDiskDrawingStore(env.DRAWINGS_DIR ?? './drawings')
+}
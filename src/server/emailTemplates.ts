@@ -0,0 +1,60 @@
+import { html, type RawHtml } from './html'
+
+export interface RenderedEmail {
+    subject: string
+    html: string
+    text: string
+}
+
+function layout(body: RawHtml): string {
+    return html`<!doctype html>
+<html>
+    <head>
+        <meta charset='UTF-8'>
+        <meta name='viewport' content='width=device-width, initial-scale=1.0'>
+    </head>
+    <body style='font-family: "Comic Sans MS", "Comic Sans", "Comic Neue", cursive; font-size: 16px; color: #000000;'>
+        ${body}
+    </body>
+</html>`.html
+}
+
+export const siteUrl = 'https://jetch.kognise.dev'
+
+export interface ShareEmailData {
+    // Whoever sent the drawing, exactly as they typed it.
+    sender: string
+    // Where the email body loads the drawing from, either a `cid:` reference to an attachment or
+    // the hosted image.
+    imageSrc: string
+    // The drawing's hosted page, if it has one. The image links there instead of being attached.
+    drawingUrl?: string
+}
+
+export function renderShareEmail(data: ShareEmailData): RenderedEmail {
+    const subject = `hi hello. ${data.sender} has a drawing for you.`
+
+    const image = html`<img src='${data.imageSrc}' alt='a drawing by ${data.sender}' style='max-width: 100%;'>`
+    const body = html`
+        <p>HELLO!</p>
+        <p><strong>${data.sender}</strong> drew this and sent it to you:</p>
+        <p>${data.drawingUrl ? html`<a href='${data.drawingUrl}'>${image}</a>` : image}</p>
+        <p>(you, too, can send your friends random sketches, with the power of ✨ <a href='${siteUrl}'>jetch</a>!)</p>
+        <p style='font-size: 0.8em;'>((if this is spam please reply to this email and i'll deal with it, very sorry.))</p>
+    `
+
+    const text = [
+        'HELLO!',
+        '',
+        data.drawingUrl
+            ? `${data.sender} drew this and sent it to you. see it here: ${data.drawingUrl}`
+            : `${data.sender} drew this and sent it to you. it's attached to this email.`,
+        '',
+        `(you, too, can send your friends random sketches, with the power of jetch! ${siteUrl})`,
+        '',
+        '((if this is spam please reply to this email and i\'ll deal with it, very sorry.))',
+        '',
+    ].join('\n')
+
+    return { subject, html: layout(body), text }
+}
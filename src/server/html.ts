@@ -0,0 +1,23 @@
+export interface RawHtml {
+    html: string
+}
+
+export function escapeHtml(value: string): string {
+    return value
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;')
+        .replaceAll('\'', '&#39;')
+}
+
+// Tagged template that escapes every interpolated string. Nested templates are trusted as-is.
+export function html(strings: TemplateStringsArray, ...values: (string | RawHtml)[]): RawHtml {
+    let result = strings[0]!
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i]!
+        result += typeof value === 'string' ? escapeHtml(value) : value.html
+        result += strings[i + 1]!
+    }
+    return { html: result }
+}
@@ -0,0 +1,164 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { nanoid } from 'nanoid'
+import { createTransport } from 'nodemailer'
+import { Resend } from 'resend'
+
+export interface MailAttachment {
+    filename: string
+    contentId?: string
+    contentType: string
+    content: Buffer
+}
+
+export interface MailMessage {
+    from: string
+    to: string[]
+    subject: string
+    replyTo?: string
+    html: string
+    text: string
+    attachments: MailAttachment[]
+}
+
+export interface MailTransport {
+    name: string
+    // Throws if the message couldn't be handed off.
+    send(message: MailMessage): Promise<void>
+}
+
+export function createResendTransport(apiKey: string | undefined): MailTransport {
+    const resend = new Resend(apiKey)
+
+    return {
+        name: 'resend',
+        async send(message) {
+            const { error } = await resend.emails.send({
+                from: message.from,
+                to: message.to,
+                subject: message.subject,
+                replyTo: message.replyTo,
+                html: message.html,
+                text: message.text,
+                attachments: message.attachments.map((attachment) => ({
+                    filename: attachment.filename,
+                    contentId: attachment.contentId,
+                    contentType: attachment.contentType,
+                    content: attachment.content,
+                })),
+            })
+            if (error) throw new Error(`Resend error: ${error.message}`, { cause: error })
+        },
+    }
+}
+
+export interface SmtpOptions {
+    host: string
+    port: number
+    secure: boolean
+    user?: string
+    pass?: string
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+    const transporter = createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    })
+
+    return {
+        name: 'smtp',
+        async send(message) {
+            await transporter.sendMail({
+                from: message.from,
+                to: message.to,
+                subject: message.subject,
+                replyTo: message.replyTo,
+                html: message.html,
+                text: message.text,
+                attachments: message.attachments.map((attachment) => ({
+                    filename: attachment.filename,
+                    cid: attachment.contentId,
+                    contentType: attachment.contentType,
+                    content: attachment.content,
+                })),
+            })
+        },
+    }
+}
+
+export interface OutboxTransport extends MailTransport {
+    // The latest messages sent, oldest first. Only kept when there's no directory.
+    messages: MailMessage[]
+}
+
+// The in-memory outbox forgets older messages past this, so it doesn't grow forever.
+const maxOutboxMessages = 100
+
+export function createOutboxTransport(directory?: string): OutboxTransport {
+    const messages: MailMessage[] = []
+
+    return {
+        name: directory ? `outbox (${directory})` : 'outbox (memory)',
+        messages,
+        async send(message) {
+            if (!directory) {
+                messages.push(message)
+                if (messages.length > maxOutboxMessages) messages.splice(0, messages.length - maxOutboxMessages)
+                return
+            }
+
+            // One folder per message, named so they sort chronologically
+            const messageDir = join(directory, `${Date.now()}-${nanoid(6)}`)
+            await mkdir(messageDir, { recursive: true })
+
+            await writeFile(join(messageDir, 'message.json'), JSON.stringify({
+                from: message.from,
+                to: message.to,
+                subject: message.subject,
+                replyTo: message.replyTo,
+                attachments: message.attachments.map(({ filename, contentId, contentType }) => ({
+                    filename,
+                    contentId,
+                    contentType,
+                })),
+            }, null, 4))
+            await writeFile(join(messageDir, 'message.html'), message.html)
+            await writeFile(join(messageDir, 'message.txt'), message.text)
+            for (const attachment of message.attachments) {
+                await writeFile(join(messageDir, attachment.filename), attachment.content)
+            }
+        },
+    }
+}
+
+// Picks a transport from the environment. While developing, no configuration falls back to an
+// in-memory outbox so the server runs fine without a Resend API key. In production that would
+// mean saying emails were sent when they weren't, so it refuses to start instead.
+export function createMailTransportFromEnv(env: Record<string, string | undefined> = Bun.env): MailTransport {
+    const kind = env.MAIL_TRANSPORT ?? (env.RESEND_API_KEY ? 'resend' : 'outbox')
+    if (kind === 'outbox' && env.NODE_ENV === 'production') {
+        throw new Error('Emails would go nowhere in production, set RESEND_API_KEY or MAIL_TRANSPORT=smtp')
+    }
+
+    switch (kind) {
+        case 'resend':
+            if (!env.RESEND_API_KEY) throw new Error('RESEND_API_KEY is required for the resend mail transport')
+            return createResendTransport(env.RESEND_API_KEY)
+        case 'smtp':
+            if (!env.SMTP_HOST) throw new Error('SMTP_HOST is required for the smtp mail transport')
+            return createSmtpTransport({
+                host: env.SMTP_HOST,
+                port: env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : 587,
+                secure: env.SMTP_SECURE === 'true',
+                user: env.SMTP_USER,
+                pass: env.SMTP_PASS,
+            })
+        case 'outbox':
+            return createOutboxTransport(env.OUTBOX_DIR)
+        default:
+            throw new Error(`Unknown mail transport: ${kind}`)
+    }
+}
@@ -0,0 +1,140 @@
+import { Database } from 'bun:sqlite'
+
+export interface RateLimitStore {
+    // Timestamps of every hit for the key at or after `since`, oldest first.
+    hits(key: string, since: number): number[]
+    add(key: string, at: number, expiresAt: number): void
+    // Forgets hits that no window cares about anymore.
+    prune(now: number): void
+}
+
+export function createMemoryStore(): RateLimitStore {
+    const entries = new Map<string, { at: number, expiresAt: number }[]>()
+
+    return {
+        hits(key, since) {
+            return (entries.get(key) ?? []).filter((hit) => hit.at >= since).map((hit) => hit.at)
+        },
+        add(key, at, expiresAt) {
+            const list = entries.get(key) ?? []
+            list.push({ at, expiresAt })
+            entries.set(key, list)
+        },
+        prune(now) {
+            for (const [key, list] of entries) {
+                const live = list.filter((hit) => hit.expiresAt > now)
+                if (live.length === 0) {
+                    entries.delete(key)
+                } else {
+                    entries.set(key, live)
+                }
+            }
+        },
+    }
+}
+
+export function createSqliteStore(filename: string): RateLimitStore {
+    const db = new Database(filename, { create: true })
+    db.run('PRAGMA journal_mode = WAL')
+    db.run(`
+        CREATE TABLE IF NOT EXISTS rate_limit_hits (
+            key TEXT NOT NULL,
+            at INTEGER NOT NULL,
+            expires_at INTEGER NOT NULL
+        )
+    `)
+    db.run('CREATE INDEX IF NOT EXISTS rate_limit_hits_key_at ON rate_limit_hits (key, at)')
+
+    const selectHits = db.query<{ at: number }, [string, number]>(
+        'SELECT at FROM rate_limit_hits WHERE key = ? AND at >= ? ORDER BY at',
+    )
+    const insertHit = db.query('INSERT INTO rate_limit_hits (key, at, expires_at) VALUES (?, ?, ?)')
+    const deleteExpired = db.query('DELETE FROM rate_limit_hits WHERE expires_at <= ?')
+
+    return {
+        hits(key, since) {
+            return selectHits.all(key, since).map((row) => row.at)
+        },
+        add(key, at, expiresAt) {
+            insertHit.run(key, at, expiresAt)
+        },
+        prune(now) {
+            deleteExpired.run(now)
+        },
+    }
+}
+
+export interface LimitCheck {
+    key: string
+    limit: number
+    windowMs: number
+}
+
+export type LimitResult = { allowed: true } | { allowed: false, retryAfterMs: number }
+
+// Sliding-window log: a request is allowed only if every check has room, and then it counts
+// against all of them. Rejected requests don't count, so a blocked client recovers on schedule.
+export function consume(store: RateLimitStore, checks: LimitCheck[], now: number = Date.now()): LimitResult {
+    let retryAfterMs = 0
+
+    for (const check of checks) {
+        const hits = store.hits(check.key, now - check.windowMs)
+        if (hits.length >= check.limit) {
+            // There's room again once enough of the oldest hits fall out of the window
+            const freeingHit = hits[hits.length - check.limit]!
+            retryAfterMs = Math.max(retryAfterMs, freeingHit + check.windowMs - now)
+        }
+    }
+
+    if (retryAfterMs > 0) return { allowed: false, retryAfterMs }
+
+    for (const check of checks) store.add(check.key, now, now + check.windowMs)
+    return { allowed: true }
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+export const shareLimits = {
+    perIp: { limit: 10, windowMs: 10 * MINUTE },
+    perSender: { limit: 10, windowMs: 10 * MINUTE },
+    perRecipientDaily: { limit: 5, windowMs: DAY },
+    globalHourly: { limit: 300, windowMs: HOUR },
+}
+
+export interface ShareRequest {
+    ip: string
+    sender: string
+    recipients: string[]
+}
+
+export function consumeShareLimits(store: RateLimitStore, request: ShareRequest, now?: number): LimitResult {
+    return consume(store, [
+        { key: `ip:${request.ip}`, ...shareLimits.perIp },
+        { key: `sender:${request.sender.toLowerCase()}`, ...shareLimits.perSender },
+        ...[...new Set(request.recipients.map((email) => email.toLowerCase()))].map((email) => ({
+            key: `recipient:${email}`,
+            ...shareLimits.perRecipientDaily,
+        })),
+        { key: 'global', ...shareLimits.globalHourly },
+    ], now)
+}
+
+export const drawingUploadLimits = {
+    perIp: { limit: 30, windowMs: HOUR },
+    globalHourly: { limit: 1000, windowMs: HOUR },
+}
+
+export function consumeDrawingUploadLimits(store: RateLimitStore, ip: string, now?: number): LimitResult {
+    return consume(store, [
+        { key: `upload-ip:${ip}`, ...drawingUploadLimits.perIp },
+        { key: 'upload-global', ...drawingUploadLimits.globalHourly },
+    ], now)
+}
+
+export function createRateLimitStoreFromEnv(env: Record<string, string | undefined> = Bun.env): RateLimitStore {
+    const store = env.RATE_LIMIT_DB ? createSqliteStore(env.RATE_LIMIT_DB) : createMemoryStore()
+    setInterval(() => store.prune(Date.now()), 10 * MINUTE).unref()
+    return store
+}
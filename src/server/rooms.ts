@@ -0,0 +1,246 @@
+import type { ServerWebSocket, WebSocketHandler } from 'bun'
+import { nanoid } from 'nanoid'
+import { z } from 'zod'
+import type { Action } from '../utils'
+import type { ClientMessage, Presence, ServerMessage } from '../rooms/protocol'
+import { actionSchema, framesSchema, idSchema, imageDataUrlSchema, layersSchema, stickerActionSchema, strokeActionSchema } from '../jetchFile'
+import { maxImageDataUrlLength } from '../images/images'
+import { defaultLayers, type Layer } from '../layers/layers'
+import { defaultFrames, type Frame } from '../frames/frames'
+
+export interface RoomSocketData {
+    roomId: string
+    // Stable per browser, so your own actions stay undoable across reloads.
+    clientId: string
+    // Unique per connection, so two tabs show up as two cursors.
+    participantId: string
+}
+
+interface Room {
+    actions: Action[]
+    authors: Map<string, string>
+    layers: Layer[]
+    frames: Frame[]
+    images: Map<string, string>
+    presences: Map<string, Presence>
+    // Roughly how much memory the actions and images take up, as the length of their JSON
+    bytes: number
+    actionBytes: Map<string, number>
+    connections: number
+    cleanup: Timer | null
+    emptySince: number | null
+}
+
+// Rooms are only kept in memory, so there's a limit on how many there are and how big each gets.
+const maxRooms = 100
+const maxRoomBytes = 16 * 1024 * 1024
+const maxRoomActions = 5000
+const maxRoomImages = 100
+// Empty rooms stick around for a bit so everyone can leave and come back, unless the space is
+// needed for a new room.
+const emptyRoomLifetime = 60 * 60 * 1000
+
+const rooms = new Map<string, Room>()
+
+const pointSchema = z.object({ x: z.number(), y: z.number(), pressure: z.number().optional() })
+const presenceSchema = z.object({
+    cursor: z.object({ x: z.number(), y: z.number() }).nullable(),
+    stroke: z.object({
+        brush: z.enum(['select', 'pen', 'eraser', 'sticker', 'text', 'line', 'arrow', 'rectangle', 'ellipse']),
+        size: z.number(),
+        color: strokeActionSchema.shape.color,
+        opacity: strokeActionSchema.shape.opacity,
+        preset: strokeActionSchema.shape.preset,
+        sticker: stickerActionSchema.shape.sticker.optional(),
+        rotation: stickerActionSchema.shape.rotation.optional(),
+        points: z.array(pointSchema).max(5000),
+    }).nullable(),
+})
+const clientMessageSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('commit'), action: actionSchema }),
+    z.object({ type: z.literal('update'), action: actionSchema }),
+    z.object({ type: z.literal('remove'), id: z.string() }),
+    z.object({ type: z.literal('layers'), layers: layersSchema }),
+    z.object({ type: z.literal('frames'), frames: framesSchema }),
+    z.object({ type: z.literal('image'), id: idSchema, dataUrl: imageDataUrlSchema }),
+    z.object({ type: z.literal('presence'), presence: presenceSchema }),
+])
+
+function topic(roomId: string): string {
+    return `room:${roomId}`
+}
+
+function deleteRoom(roomId: string) {
+    const room = rooms.get(roomId)
+    if (room?.cleanup) clearTimeout(room.cleanup)
+    rooms.delete(roomId)
+}
+
+// Whether there's space to join a room, making some by getting rid of the room that's been empty
+// the longest if there has to be.
+export function canJoinRoom(roomId: string): boolean {
+    if (rooms.has(roomId) || rooms.size < maxRooms) return true
+
+    let oldest: [string, number] | null = null
+    for (const [id, room] of rooms) {
+        if (room.emptySince !== null && (!oldest || room.emptySince < oldest[1])) oldest = [id, room.emptySince]
+    }
+    if (!oldest) return false
+    deleteRoom(oldest[0])
+    return true
+}
+
+function getRoom(roomId: string): Room {
+    let room = rooms.get(roomId)
+    if (!room) {
+        room = {
+            actions: [],
+            authors: new Map(),
+            layers: defaultLayers,
+            frames: defaultFrames,
+            images: new Map(),
+            presences: new Map(),
+            bytes: 0,
+            actionBytes: new Map(),
+            connections: 0,
+            cleanup: null,
+            emptySince: null,
+        }
+        rooms.set(roomId, room)
+    }
+    return room
+}
+
+export function createRoomSocketData(roomId: string, clientId: string): RoomSocketData {
+    return { roomId, clientId, participantId: nanoid() }
+}
+
+// `publish` sends to every socket in a topic. It comes from the server because a socket that is
+// closing can't publish anymore.
+export function createRoomWebSocketHandler(
+    publish: (topic: string, data: string) => void,
+): WebSocketHandler<RoomSocketData> {
+    function broadcast(ws: ServerWebSocket<RoomSocketData>, message: ServerMessage, includeSelf: boolean) {
+        const json = JSON.stringify(message)
+        if (includeSelf) {
+            publish(topic(ws.data.roomId), json)
+        } else {
+            ws.publish(topic(ws.data.roomId), json)
+        }
+    }
+
+    return {
+        // The biggest message is an image, and nothing else comes close
+        maxPayloadLength: maxImageDataUrlLength + 64 * 1024,
+        open(ws) {
+            const room = getRoom(ws.data.roomId)
+            room.connections++
+            room.emptySince = null
+            if (room.cleanup) {
+                clearTimeout(room.cleanup)
+                room.cleanup = null
+            }
+
+            ws.subscribe(topic(ws.data.roomId))
+            ws.send(JSON.stringify({
+                type: 'init',
+                participantId: ws.data.participantId,
+                actions: room.actions,
+                ownActionIds: room.actions
+                    .filter((action) => room.authors.get(action.id) === ws.data.clientId)
+                    .map((action) => action.id),
+                layers: room.layers,
+                frames: room.frames,
+                images: Object.fromEntries(room.images),
+                peers: Object.fromEntries(room.presences),
+            } satisfies ServerMessage))
+        },
+        message(ws, raw) {
+            const room = getRoom(ws.data.roomId)
+
+            let message: ClientMessage
+            try {
+                message = clientMessageSchema.parse(JSON.parse(String(raw)))
+            } catch {
+                ws.close(1003, 'Invalid message')
+                return
+            }
+
+            if (message.type === 'commit') {
+                const { action } = message
+                // Redoing re-sends an action, it only needs adding once
+                if (room.authors.has(action.id)) return
+                const bytes = JSON.stringify(action).length
+                if (room.actions.length >= maxRoomActions || room.bytes + bytes > maxRoomBytes) {
+                    ws.send(JSON.stringify({ type: 'remove', id: action.id } satisfies ServerMessage))
+                    return
+                }
+
+                room.actions.push(action)
+                room.authors.set(action.id, ws.data.clientId)
+                room.actionBytes.set(action.id, bytes)
+                room.bytes += bytes
+                broadcast(ws, { type: 'commit', action }, true)
+            } else if (message.type === 'update') {
+                // Same as undoing, only your own actions can be changed
+                const { action } = message
+                if (room.authors.get(action.id) !== ws.data.clientId) return
+                // A change that doesn't fit gets undone for the sender
+                const bytes = JSON.stringify(action).length
+                const previousBytes = room.actionBytes.get(action.id) ?? 0
+                if (room.bytes - previousBytes + bytes > maxRoomBytes) {
+                    const existing = room.actions.find((existing) => existing.id === action.id)
+                    if (existing) ws.send(JSON.stringify({ type: 'update', action: existing } satisfies ServerMessage))
+                    return
+                }
+
+                room.actionBytes.set(action.id, bytes)
+                room.bytes += bytes - previousBytes
+                room.actions = room.actions.map((existing) => existing.id === action.id ? action : existing)
+                // The sender already has it
+                broadcast(ws, { type: 'update', action }, false)
+            } else if (message.type === 'remove') {
+                // You can only undo your own actions
+                if (room.authors.get(message.id) !== ws.data.clientId) return
+
+                room.actions = room.actions.filter((action) => action.id !== message.id)
+                room.authors.delete(message.id)
+                room.bytes -= room.actionBytes.get(message.id) ?? 0
+                room.actionBytes.delete(message.id)
+                broadcast(ws, { type: 'remove', id: message.id }, true)
+            } else if (message.type === 'image') {
+                // Images are named after their contents, so one that's already here is the same
+                if (room.images.has(message.id) || room.images.size >= maxRoomImages) return
+                if (room.bytes + message.dataUrl.length > maxRoomBytes) return
+                room.images.set(message.id, message.dataUrl)
+                room.bytes += message.dataUrl.length
+                broadcast(ws, { type: 'image', id: message.id, dataUrl: message.dataUrl }, false)
+            } else if (message.type === 'layers') {
+                // Layers are shared, so anyone can change them and the last change wins
+                room.layers = message.layers
+                broadcast(ws, { type: 'layers', layers: message.layers }, false)
+            } else if (message.type === 'frames') {
+                // The same goes for frames
+                room.frames = message.frames
+                broadcast(ws, { type: 'frames', frames: message.frames }, false)
+            } else {
+                room.presences.set(ws.data.participantId, message.presence)
+                broadcast(ws, { type: 'presence', participantId: ws.data.participantId, presence: message.presence }, false)
+            }
+        },
+        close(ws) {
+            const room = getRoom(ws.data.roomId)
+            room.connections--
+            room.presences.delete(ws.data.participantId)
+            publish(topic(ws.data.roomId), JSON.stringify({
+                type: 'leave',
+                participantId: ws.data.participantId,
+            } satisfies ServerMessage))
+
+            if (room.connections === 0) {
+                room.emptySince = Date.now()
+                room.cleanup = setTimeout(() => deleteRoom(ws.data.roomId), emptyRoomLifetime)
+            }
+        },
+    }
+}
@@ -0,0 +1,20 @@
+import { readdir } from 'node:fs/promises'
+import { extname } from 'node:path'
+import { isStickerId } from '../stickers/stickers'
+
+const stickerExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg']
+
+export interface StickerFile {
+    id: string
+    filename: string
+}
+
+// Every image in the directory whose name works as a sticker id, sorted so the picker's order
+// doesn't change.
+export async function listStickers(directory: string): Promise<StickerFile[]> {
+    const files = await readdir(directory)
+    return files
+        .map((filename) => ({ id: filename.slice(0, -extname(filename).length), filename }))
+        .filter(({ id, filename }) => stickerExtensions.includes(extname(filename).toLowerCase()) && isStickerId(id))
+        .sort((a, b) => a.id.localeCompare(b.id))
+}
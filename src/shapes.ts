@@ -0,0 +1,113 @@
+import type { Point, RenderContext, ShapeAction, ShapeKind } from './utils'
+
+// Shapes are stored as the two corners of the drag that made them, and drawn as an outline of
+// the action's size.
+
+export const shapeKinds: ShapeKind[] = ['line', 'arrow', 'rectangle', 'ellipse']
+
+export function isShapeKind(kind: string): kind is ShapeKind {
+    return (shapeKinds as string[]).includes(kind)
+}
+
+function arrowHeadLength(shape: ShapeAction): number {
+    return Math.max(shape.size * 3, 12)
+}
+
+// The two lines of an arrow's head, each from the tip backwards.
+function arrowHead(shape: ShapeAction): [[number, number], [number, number]] {
+    const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1)
+    const length = arrowHeadLength(shape)
+    const spread = Math.PI / 6
+    return [
+        [shape.x2 - length * Math.cos(angle - spread), shape.y2 - length * Math.sin(angle - spread)],
+        [shape.x2 - length * Math.cos(angle + spread), shape.y2 - length * Math.sin(angle + spread)],
+    ]
+}
+
+// Holding shift snaps lines to 45° angles and makes rectangles and ellipses square.
+export function constrainShapeEnd(shape: ShapeKind, start: Point, end: Point): Point {
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+
+    if (shape === 'line' || shape === 'arrow') {
+        const step = Math.PI / 4
+        const angle = Math.round(Math.atan2(dy, dx) / step) * step
+        const length = Math.hypot(dx, dy)
+        return { x: start.x + Math.cos(angle) * length, y: start.y + Math.sin(angle) * length }
+    }
+
+    const side = Math.max(Math.abs(dx), Math.abs(dy))
+    return { x: start.x + side * (Math.sign(dx) || 1), y: start.y + side * (Math.sign(dy) || 1) }
+}
+
+export function getShapePath(shape: ShapeAction): Path2D {
+    const path = new Path2D()
+    if (shape.shape === 'line' || shape.shape === 'arrow') {
+        path.moveTo(shape.x1, shape.y1)
+        path.lineTo(shape.x2, shape.y2)
+        if (shape.shape === 'arrow') {
+            for (const [x, y] of arrowHead(shape)) {
+                path.moveTo(shape.x2, shape.y2)
+                path.lineTo(x, y)
+            }
+        }
+    } else if (shape.shape === 'rectangle') {
+        path.rect(
+            Math.min(shape.x1, shape.x2),
+            Math.min(shape.y1, shape.y2),
+            Math.abs(shape.x2 - shape.x1),
+            Math.abs(shape.y2 - shape.y1),
+        )
+    } else {
+        path.ellipse(
+            (shape.x1 + shape.x2) / 2,
+            (shape.y1 + shape.y2) / 2,
+            Math.abs(shape.x2 - shape.x1) / 2,
+            Math.abs(shape.y2 - shape.y1) / 2,
+            0, 0, Math.PI * 2,
+        )
+    }
+    return path
+}
+
+export function setShapeLineStyle(ctx: RenderContext, shape: ShapeAction) {
+    ctx.lineWidth = shape.size
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+}
+
+export function renderShape(ctx: RenderContext, shape: ShapeAction, color: string) {
+    ctx.strokeStyle = color
+    setShapeLineStyle(ctx, shape)
+    ctx.stroke(getShapePath(shape))
+}
+
+export function getShapeBounds(shape: ShapeAction) {
+    // Arrow heads poke out past the end of the line, so leave room for them too
+    const margin = shape.size / 2 + (shape.shape === 'arrow' ? arrowHeadLength(shape) : 0)
+    return {
+        minX: Math.min(shape.x1, shape.x2) - margin,
+        minY: Math.min(shape.y1, shape.y2) - margin,
+        maxX: Math.max(shape.x1, shape.x2) + margin,
+        maxY: Math.max(shape.y1, shape.y2) + margin,
+    }
+}
+
+export function shapeToSvg(shape: ShapeAction, color: string, opacity: number): string {
+    const stroke = `fill='none' stroke='${color}' stroke-width='${shape.size}' stroke-linecap='round' stroke-linejoin='round'`
+        + (opacity < 1 ? ` stroke-opacity='${opacity}'` : '')
+
+    if (shape.shape === 'line') {
+        return `<line x1='${shape.x1}' y1='${shape.y1}' x2='${shape.x2}' y2='${shape.y2}' ${stroke}/>`
+    }
+    if (shape.shape === 'arrow') {
+        const head = arrowHead(shape).map(([x, y]) => `M ${shape.x2},${shape.y2} L ${x},${y}`).join(' ')
+        return `<path d='M ${shape.x1},${shape.y1} L ${shape.x2},${shape.y2} ${head}' ${stroke}/>`
+    }
+    if (shape.shape === 'rectangle') {
+        return `<rect x='${Math.min(shape.x1, shape.x2)}' y='${Math.min(shape.y1, shape.y2)}' `
+            + `width='${Math.abs(shape.x2 - shape.x1)}' height='${Math.abs(shape.y2 - shape.y1)}' ${stroke}/>`
+    }
+    return `<ellipse cx='${(shape.x1 + shape.x2) / 2}' cy='${(shape.y1 + shape.y2) / 2}' `
+        + `rx='${Math.abs(shape.x2 - shape.x1) / 2}' ry='${Math.abs(shape.y2 - shape.y1) / 2}' ${stroke}/>`
+}
@@ -1,27 +1,43 @@
 import { useId, useRef, useState, type MouseEvent, type PointerEvent } from 'react'
 import styles from './SharingModal.module.css'
 import { FocusTrap } from 'focus-trap-react'
-import { useBlobjectUrl, useLocalState } from '@/utils'
+import { useBlobjectUrl, useLocalState, type Action } from '@/utils'
 import confetti from 'canvas-confetti'
+import { collectImages } from '../images/images'
 
 export interface SharingModalProps {
-    pngBlob: Blob
+    // A PNG, or an animated GIF for flipbooks.
+    imageBlob: Blob
+    history: Action[]
     onClose: () => void
 }
 
+interface HostedDrawing {
+    id: string
+    url: string
+}
+
+type UploadResult = { ok: true, drawing: HostedDrawing } | { ok: false, error: string }
+
 export default function SharingModal(props: SharingModalProps) {
-    const pngUrl = useBlobjectUrl(props.pngBlob)
+    const imageUrl = useBlobjectUrl(props.imageBlob)
     
     const youId = useId()
     const aId = useId()
     const bId = useId()
     const cId = useId()
     const lexiId = useId()
+    const publicId = useId()
     
     const modalRef = useRef<HTMLFormElement>(null)
     const [isLoading, setIsLoading] = useState(false)
     const [isSent, setIsSent] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    const [isCopying, setIsCopying] = useState(false)
+    const [isCopied, setIsCopied] = useState(false)
+    const upload = useRef<Promise<UploadResult> | null>(null)
+    // Emails have the drawing attached unless it's been put online, which only happens when asked
+    const [isPublic, setIsPublic] = useState(false)
 
     const [you, setYou] = useLocalState('you', '')
     const [a, setA] = useLocalState('a', '')
@@ -29,6 +45,42 @@ export default function SharingModal(props: SharingModalProps) {
     const [c, setC] = useLocalState('c', '')
     const [lexi, setLexi] = useLocalState<boolean>('lexi', false)
 
+    // Copying the link and sending emails share one upload, so the drawing is only hosted once. After
+    // that, emails link to it too, since it's online anyway.
+    function hostDrawing(): Promise<UploadResult> {
+        if (!upload.current) {
+            const promise = uploadDrawing(props.imageBlob, props.history)
+            upload.current = promise
+            // Failed uploads are forgotten so the next attempt retries
+            const forget = () => {
+                if (upload.current === promise) upload.current = null
+            }
+            promise.then((result) => result.ok || forget(), forget)
+        }
+        return upload.current
+    }
+
+    async function copyLink() {
+        setIsCopying(true)
+        setError(null)
+
+        try {
+            const result = await hostDrawing()
+            if (!result.ok) {
+                setError(result.error)
+                return
+            }
+
+            await navigator.clipboard.writeText(result.drawing.url)
+            setIsCopied(true)
+        } catch (error) {
+            console.error(error)
+            setError('something weird and unexpected happened :(')
+        } finally {
+            setIsCopying(false)
+        }
+    }
+
     function onContainerPointerDown(event: PointerEvent) {
         // If the event chain doesn't contain the modal, then close the modal.
         if (!modalRef.current?.contains(event.target as Node) && !isLoading) {
@@ -71,7 +123,14 @@ export default function SharingModal(props: SharingModalProps) {
                         formData.append('you', you)
                         formData.append('emails', JSON.stringify(emails))
                         formData.append('lexi', String(lexi))
-                        formData.append('image', props.pngBlob)
+
+                        // Link to the hosted drawing if it's meant to be online, otherwise attach it
+                        const hosted = isPublic || upload.current ? await hostDrawing() : null
+                        if (hosted?.ok) {
+                            formData.append('drawingId', hosted.drawing.id)
+                        } else {
+                            formData.append('image', props.imageBlob)
+                        }
 
                         const response = await fetch('/share', {
                             method: 'POST',
@@ -79,7 +138,7 @@ export default function SharingModal(props: SharingModalProps) {
                         })
 
                         if (!response.ok) {
-                            setError((await response.text()).toLowerCase())
+                            setError(await errorMessage(response, 'emails'))
                             setIsLoading(false)
                             return
                         }
@@ -97,7 +156,7 @@ export default function SharingModal(props: SharingModalProps) {
 
                     <img
                         className={styles.preview}
-                        src={pngUrl ?? undefined}
+                        src={imageUrl ?? undefined}
                     />
                     
                     <div className={styles.group}>
@@ -141,7 +200,7 @@ export default function SharingModal(props: SharingModalProps) {
                         />
                     </div>
                     
-                    <div className={styles.lexi}>
+                    <div className={styles.checkbox}>
                         <input
                             type='checkbox'
                             id={lexiId}
@@ -150,11 +209,23 @@ export default function SharingModal(props: SharingModalProps) {
                         />
                         <label htmlFor={lexiId}>also send to lexi (she made this site)</label>
                     </div>
+                    <div className={styles.checkbox}>
+                        <input
+                            type='checkbox'
+                            id={publicId}
+                            checked={isPublic}
+                            onChange={(event) => setIsPublic(event.target.checked)}
+                        />
+                        <label htmlFor={publicId}>put it online and send a link (anyone with the link can see it)</label>
+                    </div>
 
                     <div className={styles.buttons}>
                         <button type='submit' className={styles.primary} disabled={isLoading}>
                             send emails!!!
                         </button>
+                        <button type='button' onClick={copyLink} disabled={isLoading || isCopying}>
+                            {isCopied ? 'link copied!' : 'copy link'}
+                        </button>
                         <button type='button' onClick={props.onClose} disabled={isLoading}>
                             nevermind
                         </button>
@@ -166,6 +237,45 @@ export default function SharingModal(props: SharingModalProps) {
     )
 }
 
+async function uploadDrawing(imageBlob: Blob, history: Action[]): Promise<UploadResult> {
+    const formData = new FormData()
+    formData.append('image', imageBlob)
+    formData.append('actions', JSON.stringify(history))
+    // Image actions only refer to their images by id, so the images go along with them
+    formData.append('images', JSON.stringify(collectImages(history)))
+
+    const response = await fetch('/drawings', {
+        method: 'POST',
+        body: formData,
+    })
+
+    if (!response.ok) return { ok: false, error: await errorMessage(response, 'drawings') }
+    return { ok: true, drawing: await response.json() }
+}
+
+// `what` is what there's been too many of, when it's rate limited.
+async function errorMessage(response: Response, what: 'emails' | 'drawings'): Promise<string> {
+    if (response.status === 429) {
+        return rateLimitMessage(what, parseInt(response.headers.get('Retry-After') ?? '', 10))
+    }
+    return (await response.text()).toLowerCase()
+}
+
+function rateLimitMessage(what: 'emails' | 'drawings', retryAfterSeconds: number): string {
+    if (!Number.isFinite(retryAfterSeconds)) {
+        return `whoa, that's a lot of ${what}. take a little break and try again later :)`
+    }
+    if (retryAfterSeconds < 90) {
+        return `whoa, that's a lot of ${what}. take a little break and try again in a minute :)`
+    }
+    const minutes = Math.ceil(retryAfterSeconds / 60)
+    if (minutes < 90) {
+        return `whoa, that's a lot of ${what}. take a little break and try again in ${minutes} minutes :)`
+    }
+    const hours = Math.ceil(minutes / 60)
+    return `whoa, that's a lot of ${what}. take a little break and try again in ${hours} hours :)`
+}
+
 function doConfetti() {
     const end = Date.now() + 1000 * 2
     const colors = ['#2b8a3e', '#40c057', '#69db7c', '#d3f9d8', '#ebfbee']
@@ -0,0 +1,79 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import styles from './StickerPicker.module.css'
+import { fetchStickers, stickerUrl, type Sticker } from './stickers'
+import { useDismiss } from '@/utils'
+
+export interface StickerPickerProps {
+    sticker: string
+    // In degrees.
+    rotation: number
+    onStickerChange: (sticker: string) => void
+    onRotationChange: (rotation: number) => void
+}
+
+export default function StickerPicker(props: StickerPickerProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [stickers, setStickers] = useState<Sticker[] | null>(null)
+    const [error, setError] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const rotationId = useId()
+
+    useDismiss(containerRef, isOpen, () => setIsOpen(false))
+
+    // Only ask the server once someone wants to pick one
+    useEffect(() => {
+        if (!isOpen || stickers) return
+        setError(false)
+        fetchStickers()
+            .then(setStickers)
+            .catch((error) => {
+                console.error(error)
+                setError(true)
+            })
+    }, [isOpen, stickers])
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button title={`sticker: ${props.sticker}`} className={styles.current} onClick={() => setIsOpen(!isOpen)}>
+                <img src={stickerUrl(props.sticker)} alt='' style={{ rotate: `${props.rotation}deg` }} />
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    {error ? (
+                        <p className={styles.message}>couldn't load stickers</p>
+                    ) : !stickers ? (
+                        <p className={styles.message}>loading...</p>
+                    ) : stickers.length === 0 ? (
+                        <p className={styles.message}>no stickers here</p>
+                    ) : (
+                        <div className={styles.grid}>
+                            {stickers.map((sticker) => (
+                                <button
+                                    key={sticker.id}
+                                    title={sticker.id}
+                                    className={`${styles.option} ${sticker.id === props.sticker ? styles.selected : ''}`}
+                                    onClick={() => props.onStickerChange(sticker.id)}
+                                >
+                                    <img src={sticker.url} alt={sticker.id} loading='lazy' />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className={styles.row}>
+                        <label htmlFor={rotationId}>rotation</label>
+                        <input
+                            type='range'
+                            id={rotationId}
+                            min={-180}
+                            max={180}
+                            value={props.rotation}
+                            onChange={(event) => props.onRotationChange(parseInt(event.target.value, 10))}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
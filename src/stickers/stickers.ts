@@ -0,0 +1,71 @@
+import type { CachedImage, RenderContext, StickerAction } from '../utils'
+
+// Stickers are the images in the server's `stickers` directory, named after their filename
+// without the extension. Sticker actions only hold that name, so the images aren't part of
+// drawings.
+
+export interface Sticker {
+    id: string
+    url: string
+}
+
+// How big the longest side of a sticker is at a scale of 1, in world units.
+export const stickerSize = 50
+
+// Every drawing from before stickers had this one, as its own button.
+export const defaultStickerId = 'kitty'
+
+export function isStickerId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{1,64}$/.test(id)
+}
+
+export function stickerUrl(id: string): string {
+    return `/stickers/${encodeURIComponent(id)}`
+}
+
+export async function fetchStickers(): Promise<Sticker[]> {
+    const response = await fetch('/stickers')
+    if (!response.ok) throw new Error(`Failed to list stickers: ${response.status}`)
+    return response.json()
+}
+
+// Stickers are fit into a square, turned around their middle.
+export function getStickerBounds(sticker: StickerAction) {
+    const half = stickerSize * sticker.scale / 2
+    // How far a corner of the turned square reaches along each axis
+    const reach = half * (Math.abs(Math.cos(sticker.rotation)) + Math.abs(Math.sin(sticker.rotation)))
+    return {
+        minX: sticker.x - reach,
+        minY: sticker.y - reach,
+        maxX: sticker.x + reach,
+        maxY: sticker.y + reach,
+    }
+}
+
+// Draws an image as big as it fits in the sticker's square, keeping its aspect ratio.
+export function renderSticker(ctx: RenderContext, sticker: StickerAction, image: CachedImage) {
+    const naturalWidth = 'naturalWidth' in image ? image.naturalWidth : image.width
+    const naturalHeight = 'naturalHeight' in image ? image.naturalHeight : image.height
+    const size = stickerSize * sticker.scale
+    const fit = size / Math.max(naturalWidth, naturalHeight)
+    const width = naturalWidth * fit
+    const height = naturalHeight * fit
+
+    ctx.save()
+    ctx.translate(sticker.x, sticker.y)
+    ctx.rotate(sticker.rotation)
+    ctx.drawImage(image, -width / 2, -height / 2, width, height)
+    ctx.restore()
+}
+
+export function stickerToSvg(sticker: StickerAction): string {
+    const degrees = sticker.rotation * 180 / Math.PI
+    return `<use href='#sticker-${sticker.sticker}' `
+        + `transform='translate(${sticker.x} ${sticker.y}) rotate(${degrees}) scale(${sticker.scale})'/>`
+}
+
+// The image each sticker in an SVG refers to, centered on the origin.
+export function stickerDefToSvg(id: string, dataUrl: string): string {
+    return `<image id='sticker-${id}' href='${dataUrl}' x='${-stickerSize / 2}' y='${-stickerSize / 2}' `
+        + `width='${stickerSize}' height='${stickerSize}'/>`
+}
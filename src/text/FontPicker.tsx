@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react'
+import styles from './FontPicker.module.css'
+import { textFonts } from './text'
+import { useDismiss, type TextFont } from '@/utils'
+
+export interface FontPickerProps {
+    font: TextFont
+    disabled?: boolean
+    onChange: (font: TextFont) => void
+}
+
+export default function FontPicker(props: FontPickerProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    useDismiss(containerRef, isOpen, () => setIsOpen(false))
+
+    useEffect(() => {
+        if (props.disabled) setIsOpen(false)
+    }, [props.disabled])
+
+    const current = textFonts.find((font) => font.id === props.font) ?? textFonts[0]!
+
+    return (
+        <div ref={containerRef} className={styles.container}>
+            <button
+                title={`font: ${current.name}`}
+                className={styles.current}
+                disabled={props.disabled}
+                style={{ fontFamily: current.family }}
+                onClick={() => setIsOpen(!isOpen)}
+            >
+                Aa
+            </button>
+
+            {isOpen && (
+                <div className={styles.popover}>
+                    {textFonts.map((font) => (
+                        <button
+                            key={font.id}
+                            className={`${styles.option} ${font.id === props.font ? styles.selected : ''}`}
+                            style={{ fontFamily: font.family }}
+                            onClick={() => {
+                                props.onChange(font.id)
+                                setIsOpen(false)
+                            }}
+                        >
+                            {font.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react'
+import styles from './TextEditor.module.css'
+import { getFontFamily, lineHeight, measureText } from './text'
+import { defaultColor, type CanvasPosition, type TextAction } from '@/utils'
+
+export interface TextEditorProps {
+    text: TextAction
+    position: CanvasPosition
+    onChange: (text: string) => void
+    onDone: () => void
+}
+
+// A textarea laid over the canvas exactly where the text will be drawn.
+export default function TextEditor({ text, position, onChange, onDone }: TextEditorProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+    useEffect(() => {
+        // Wait for the click that placed the text to finish, or it takes the focus right back
+        const frame = requestAnimationFrame(() => textareaRef.current?.focus())
+        return () => cancelAnimationFrame(frame)
+    }, [])
+
+    const { width, height } = measureText(text)
+
+    return (
+        <textarea
+            ref={textareaRef}
+            className={styles.editor}
+            value={text.text}
+            spellCheck={false}
+            aria-label='text'
+            style={{
+                left: `${text.x * position.zoom - position.x}px`,
+                top: `${text.y * position.zoom - position.y}px`,
+                // Leave room for the caret past the end of the longest line
+                width: `${(width + text.size) * position.zoom}px`,
+                height: `${height * position.zoom}px`,
+                fontFamily: getFontFamily(text.font),
+                fontSize: `${text.size * position.zoom}px`,
+                lineHeight,
+                color: text.color ?? defaultColor,
+                opacity: text.opacity ?? 1,
+            }}
+            onChange={(event) => onChange(event.target.value)}
+            onKeyDown={(event) => {
+                if (event.key === 'Escape' || (event.key === 'Enter' && (event.ctrlKey || event.metaKey))) {
+                    event.preventDefault()
+                    onDone()
+                }
+            }}
+        />
+    )
+}
@@ -0,0 +1,68 @@
+import type { RenderContext, TextAction, TextFont } from '../utils'
+
+// Text is laid out the same way everywhere, one line per `\n` with no wrapping, so the editor
+// overlay, the canvas and SVG exports all agree on where each line goes.
+
+export const textFonts: { id: TextFont, name: string, family: string }[] = [
+    { id: 'comic', name: 'comic', family: `'Comic Sans MS', 'Comic Sans', 'Comic Neue', cursive` },
+    { id: 'sans', name: 'sans', family: `system-ui, 'Helvetica Neue', Arial, sans-serif` },
+    { id: 'serif', name: 'serif', family: `Georgia, 'Times New Roman', serif` },
+    { id: 'mono', name: 'mono', family: `ui-monospace, Menlo, Consolas, monospace` },
+]
+
+export const lineHeight = 1.25
+
+export function getFontFamily(font: TextFont): string {
+    return (textFonts.find((option) => option.id === font) ?? textFonts[0]!).family
+}
+
+function getFont(text: Pick<TextAction, 'font' | 'size'>): string {
+    return `${text.size}px ${getFontFamily(text.font)}`
+}
+
+let measuringContext: OffscreenCanvasRenderingContext2D | null = null
+
+export function measureText(text: Pick<TextAction, 'text' | 'font' | 'size'>): { width: number, height: number } {
+    measuringContext ??= new OffscreenCanvas(1, 1).getContext('2d')!
+    measuringContext.font = getFont(text)
+
+    const lines = text.text.split('\n')
+    const width = Math.max(...lines.map((line) => measuringContext!.measureText(line).width))
+    return { width, height: lines.length * text.size * lineHeight }
+}
+
+export function getTextBounds(text: TextAction) {
+    const { width, height } = measureText(text)
+    return { minX: text.x, minY: text.y, maxX: text.x + width, maxY: text.y + height }
+}
+
+export function renderText(ctx: RenderContext, text: TextAction, color: string) {
+    ctx.font = getFont(text)
+    ctx.fillStyle = color
+    ctx.textBaseline = 'top'
+
+    // Lines sit in the middle of their line height, like they do in the editor's textarea
+    const leading = text.size * (lineHeight - 1) / 2
+    text.text.split('\n').forEach((line, i) => {
+        ctx.fillText(line, text.x, text.y + leading + i * text.size * lineHeight)
+    })
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('\'', '&apos;')
+        .replaceAll('"', '&quot;')
+}
+
+export function textToSvg(text: TextAction, color: string, opacity: number): string {
+    const leading = text.size * (lineHeight - 1) / 2
+    const lines = text.text.split('\n').map((line, i) => (
+        `<tspan x='${text.x}' y='${text.y + leading + i * text.size * lineHeight}'>${escapeXml(line)}</tspan>`
+    ))
+    return `<text font-family='${escapeXml(getFontFamily(text.font))}' font-size='${text.size}' `
+        + `fill='${color}'${opacity < 1 ? ` fill-opacity='${opacity}'` : ''} `
+        + `dominant-baseline='text-before-edge' xml:space='preserve'>${lines.join('')}</text>`
+}
@@ -0,0 +1,82 @@
+import { getActionBounds, type Action } from '../utils'
+import type { Bounds } from '../selection/selection'
+
+// Actions go into a grid of square cells by their bounds, so finding what's in some area only
+// has to look at the cells it covers instead of the whole history.
+
+const cellSize = 512
+// Anything covering more cells than this, like a big snapshot, gets checked every time instead.
+const maxCells = 64
+
+export interface SpatialIndex {
+    add(action: Action): void
+    // Everything whose bounds touch the area, in the order they were added.
+    query(area: Bounds): Action[]
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+    return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY
+}
+
+function getCellRange(bounds: Bounds) {
+    return {
+        minX: Math.floor(bounds.minX / cellSize),
+        minY: Math.floor(bounds.minY / cellSize),
+        maxX: Math.floor(bounds.maxX / cellSize),
+        maxY: Math.floor(bounds.maxY / cellSize),
+    }
+}
+
+export function createSpatialIndex(actions: Action[] = []): SpatialIndex {
+    const entries: { action: Action, bounds: Bounds }[] = []
+    const cells = new Map<string, number[]>()
+    const large: number[] = []
+
+    function add(action: Action) {
+        const bounds = getActionBounds(action)
+        // Strokes without any points don't draw anything
+        if (!(bounds.minX <= bounds.maxX && bounds.minY <= bounds.maxY)) return
+
+        const index = entries.length
+        entries.push({ action, bounds })
+
+        const range = getCellRange(bounds)
+        if ((range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > maxCells) {
+            large.push(index)
+            return
+        }
+        for (let x = range.minX; x <= range.maxX; x++) {
+            for (let y = range.minY; y <= range.maxY; y++) {
+                const key = `${x},${y}`
+                const cell = cells.get(key)
+                if (cell) cell.push(index)
+                else cells.set(key, [index])
+            }
+        }
+    }
+
+    for (const action of actions) add(action)
+
+    return {
+        add,
+        query(area) {
+            const found = new Set<number>()
+            const check = (index: number) => {
+                if (boundsIntersect(entries[index]!.bounds, area)) found.add(index)
+            }
+
+            for (const index of large) check(index)
+            const range = getCellRange(area)
+            if ((range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > cells.size) {
+                // Going through every cell is quicker than looking up lots of empty ones
+                for (const cell of cells.values()) cell.forEach(check)
+            } else {
+                for (let x = range.minX; x <= range.maxX; x++) {
+                    for (let y = range.minY; y <= range.maxY; y++) cells.get(`${x},${y}`)?.forEach(check)
+                }
+            }
+
+            return [...found].sort((a, b) => a - b).map((index) => entries[index]!.action)
+        },
+    }
+}
@@ -0,0 +1,204 @@
+import { getActionBounds, getImageCacheKey, renderAction, usesImage, type Action, type CanvasPosition, type ImageCache, type RenderContext } from '../utils'
+import type { Bounds } from '../selection/selection'
+import { boundsIntersect, createSpatialIndex, type SpatialIndex } from './spatialIndex'
+
+// Layers are drawn in square tiles at zoom levels a power of two apart, and the tiles are kept
+// around so panning only has to copy them onto the screen. Tiles are drawn at the next level up
+// from the actual zoom, so they only ever get scaled down. Once an action changes, just the tiles
+// it's on get drawn again, and new actions get drawn straight onto the tiles that already exist.
+
+// In pixels.
+export const tileSize = 256
+// About 100MB of tiles, after which the ones drawn least recently get dropped.
+const maxTiles = 384
+
+interface Tile {
+    layerId: string
+    level: number
+    // Which tile this is along each axis, counting in tiles from the origin.
+    x: number
+    y: number
+    canvas: HTMLCanvasElement
+}
+
+interface LayerTiles {
+    actions: Action[]
+    index: SpatialIndex
+}
+
+export interface TileCache {
+    // Catches a layer's tiles up with its actions.
+    update(layerId: string, actions: Action[]): void
+    // Draws a layer onto a context the size of the screen.
+    draw(ctx: RenderContext, layerId: string, position: CanvasPosition, dpr: number, opacity: number): void
+    // Forgets about every layer that isn't one of these.
+    keepLayers(layerIds: string[]): void
+    // Draws again whatever uses an image that's only just loaded.
+    refreshImage(key: string): void
+}
+
+function getLevel(scale: number): number {
+    return Math.ceil(Math.log2(scale))
+}
+
+// The area a tile covers in world units, plus a couple of pixels for antialiasing to spill into.
+function getTileBounds(level: number, x: number, y: number): Bounds {
+    const scale = 2 ** level
+    const margin = 2 / scale
+    const size = tileSize / scale
+    return {
+        minX: x * size - margin,
+        minY: y * size - margin,
+        maxX: (x + 1) * size + margin,
+        maxY: (y + 1) * size + margin,
+    }
+}
+
+export function createTileCache(imageCache: ImageCache): TileCache {
+    const layers = new Map<string, LayerTiles>()
+    // In the order they were last drawn, so the oldest ones are first to go
+    const tiles = new Map<string, Tile>()
+
+    function renderOnto(tile: Tile, actions: Action[]) {
+        const ctx = tile.canvas.getContext('2d')!
+        const scale = 2 ** tile.level
+        ctx.setTransform(scale, 0, 0, scale, -tile.x * tileSize, -tile.y * tileSize)
+        for (const action of actions) renderAction(ctx, action, imageCache)
+    }
+
+    function tilesOn(layerId: string, bounds: Bounds): [string, Tile][] {
+        return [...tiles].filter(([, tile]) => tile.layerId === layerId
+            && boundsIntersect(getTileBounds(tile.level, tile.x, tile.y), bounds))
+    }
+
+    function dropTiles(layerId: string, bounds?: Bounds[]) {
+        for (const [key, tile] of tiles) {
+            if (tile.layerId !== layerId) continue
+            const area = getTileBounds(tile.level, tile.x, tile.y)
+            if (!bounds || bounds.some((changed) => boundsIntersect(area, changed))) tiles.delete(key)
+        }
+    }
+
+    function getTile(layerId: string, level: number, x: number, y: number): Tile | null {
+        const key = `${layerId}/${level}/${x}/${y}`
+        const existing = tiles.get(key)
+        if (existing) {
+            tiles.delete(key)
+            tiles.set(key, existing)
+            return existing
+        }
+
+        // Empty tiles aren't kept, since there's nothing to draw
+        const actions = layers.get(layerId)!.index.query(getTileBounds(level, x, y))
+        if (actions.length === 0) return null
+
+        let canvas: HTMLCanvasElement
+        if (tiles.size >= maxTiles) {
+            const [oldestKey, oldest] = tiles.entries().next().value!
+            tiles.delete(oldestKey)
+            canvas = oldest.canvas
+            const ctx = canvas.getContext('2d')!
+            ctx.setTransform(1, 0, 0, 1, 0, 0)
+            ctx.clearRect(0, 0, tileSize, tileSize)
+        } else {
+            canvas = document.createElement('canvas')
+            canvas.width = tileSize
+            canvas.height = tileSize
+        }
+
+        const tile = { layerId, level, x, y, canvas }
+        renderOnto(tile, actions)
+        tiles.set(key, tile)
+        return tile
+    }
+
+    return {
+        update(layerId, actions) {
+            const layer = layers.get(layerId)
+            if (!layer) {
+                layers.set(layerId, { actions, index: createSpatialIndex(actions) })
+                return
+            }
+
+            const prev = layer.actions
+            if (prev === actions) return
+            layer.actions = actions
+
+            // Drawing something new only adds to the top
+            if (prev.length <= actions.length && prev.every((action, i) => actions[i] === action)) {
+                for (const action of actions.slice(prev.length)) {
+                    layer.index.add(action)
+                    for (const [, tile] of tilesOn(layerId, getActionBounds(action))) renderOnto(tile, [action])
+                }
+                return
+            }
+
+            layer.index = createSpatialIndex(actions)
+            const before = new Set(prev)
+            const after = new Set(actions)
+            const removed = prev.filter((action) => !after.has(action))
+            const added = actions.filter((action) => !before.has(action))
+
+            // Anything that stayed but got moved around in the stack could be covering something
+            // else now, anywhere on the layer
+            const keptBefore = prev.filter((action) => after.has(action))
+            const keptAfter = actions.filter((action) => before.has(action))
+            if (keptAfter.some((action, i) => action !== keptBefore[i])) {
+                dropTiles(layerId)
+                return
+            }
+            dropTiles(layerId, [...removed, ...added].map(getActionBounds))
+        },
+
+        draw(ctx, layerId, position, dpr, opacity) {
+            if (!layers.has(layerId)) return
+            const level = getLevel(position.zoom * dpr)
+            const worldTileSize = tileSize / 2 ** level
+            // Where a point in the world ends up on the canvas, rounded so tiles meet without gaps
+            const toCanvasX = (x: number) => Math.round((x * position.zoom - position.x) * dpr)
+            const toCanvasY = (y: number) => Math.round((y * position.zoom - position.y) * dpr)
+
+            const minX = Math.floor(position.x / position.zoom / worldTileSize)
+            const minY = Math.floor(position.y / position.zoom / worldTileSize)
+            const maxX = Math.floor((ctx.canvas.width / dpr + position.x) / position.zoom / worldTileSize)
+            const maxY = Math.floor((ctx.canvas.height / dpr + position.y) / position.zoom / worldTileSize)
+
+            ctx.save()
+            ctx.setTransform(1, 0, 0, 1, 0, 0)
+            ctx.globalAlpha = opacity
+            ctx.globalCompositeOperation = 'source-over'
+            ctx.imageSmoothingQuality = 'high'
+            for (let x = minX; x <= maxX; x++) {
+                for (let y = minY; y <= maxY; y++) {
+                    const tile = getTile(layerId, level, x, y)
+                    if (!tile) continue
+                    const left = toCanvasX(x * worldTileSize)
+                    const top = toCanvasY(y * worldTileSize)
+                    ctx.drawImage(
+                        tile.canvas,
+                        left,
+                        top,
+                        toCanvasX((x + 1) * worldTileSize) - left,
+                        toCanvasY((y + 1) * worldTileSize) - top,
+                    )
+                }
+            }
+            ctx.restore()
+        },
+
+        keepLayers(layerIds) {
+            for (const id of layers.keys()) {
+                if (layerIds.includes(id)) continue
+                layers.delete(id)
+                dropTiles(id)
+            }
+        },
+
+        refreshImage(key) {
+            for (const [layerId, layer] of layers) {
+                const using = layer.actions.filter((action) => usesImage(action) && getImageCacheKey(action) === key)
+                if (using.length > 0) dropTiles(layerId, using.map(getActionBounds))
+            }
+        },
+    }
+}
@@ -1,18 +1,16 @@
 import getStroke from 'perfect-freehand'
-import { useEffect, useState, type Dispatch, type SetStateAction } from 'react'
-import kittyPath from './kitty.png'
-
-export const kitty = new Image()
-kitty.src = kittyPath
-await new Promise<void>((resolve, reject) => {
-    kitty.onload = () => resolve()
-    kitty.onerror = () => reject()
-})
-export const kittySize = 50
+import { useEffect, useState, type Dispatch, type RefObject, type SetStateAction } from 'react'
+import { defaultBrushPreset, type BrushPreset } from './brushes/presets'
+import { getShapeBounds, isShapeKind, renderShape, shapeToSvg } from './shapes'
+import { getTextBounds, renderText, textToSvg } from './text/text'
+import { getVisibleActions, groupByLayer, type Layer } from './layers/layers'
+import { getImageDataUrl } from './images/images'
+import { getStickerBounds, renderSticker, stickerDefToSvg, stickerToSvg, stickerUrl } from './stickers/stickers'
 
 export interface Point {
     x: number
     y: number
+    // Left out for pointers that can't sense pressure, which then get it simulated from speed.
     pressure?: number
 }
 
@@ -20,13 +18,42 @@ export interface StrokeAction {
     id: string
     kind: 'pen' | 'eraser'
     path: [number, number][]
+    // These only matter for pens. Strokes from before colors existed have neither and are black.
+    color?: string
+    opacity?: number
+    // The id of the brush preset that drew it.
+    preset?: string
+    // The id of the layer it's on, see `layers.ts`.
+    layer?: string
+    // The id of the frame it's in, see `frames.ts`.
+    frame?: string
+    // When it was drawn, in milliseconds since the epoch, for timelapses. Actions from before
+    // there were timelapses don't have one.
+    time?: number
 }
 
-export interface KittyAction {
+export const defaultColor = '#000000'
+
+// Drawing happens on the page and in the rendering worker, which only has offscreen canvases.
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Images are elements on the page and bitmaps in the rendering worker.
+export type CachedImage = HTMLImageElement | ImageBitmap
+export type ImageCache = Map<string, CachedImage>
+
+// A sticker centered on a point, see `stickers.ts`.
+export interface StickerAction {
     id: string
-    kind: 'kitty'
+    kind: 'sticker'
+    sticker: string
     x: number
     y: number
+    scale: number
+    // Clockwise, in radians.
+    rotation: number
+    layer?: string
+    frame?: string
+    time?: number
 }
 
 export interface SnapshotAction {
@@ -37,11 +64,72 @@ export interface SnapshotAction {
     y: number
     width: number
     height: number
+    layer?: string
+    frame?: string
+    time?: number
+}
+
+// A pasted or dropped image, see `images.ts`.
+export interface ImageAction {
+    id: string
+    kind: 'image'
+    // The id of the image data, which isn't kept in the history.
+    image: string
+    x: number
+    y: number
+    width: number
+    height: number
+    layer?: string
+    frame?: string
+    time?: number
+}
+
+export type ShapeKind = 'line' | 'arrow' | 'rectangle' | 'ellipse'
+
+export interface ShapeAction {
+    id: string
+    kind: 'shape'
+    shape: ShapeKind
+    // Where the drag started and ended.
+    x1: number
+    y1: number
+    x2: number
+    y2: number
+    // The outline's width.
+    size: number
+    color?: string
+    opacity?: number
+    layer?: string
+    frame?: string
+    time?: number
+}
+
+export type TextFont = 'comic' | 'sans' | 'serif' | 'mono'
+
+export interface TextAction {
+    id: string
+    kind: 'text'
+    // The top left corner of the first line.
+    x: number
+    y: number
+    text: string
+    font: TextFont
+    // The font size, in world units.
+    size: number
+    color?: string
+    opacity?: number
+    layer?: string
+    frame?: string
+    time?: number
 }
 
-export type Action = StrokeAction | SnapshotAction | KittyAction
+export type Action = StrokeAction | SnapshotAction | StickerAction | ShapeAction | TextAction | ImageAction
 
-export function pointsToPath(points: Point[], size: number): [number, number][] {
+export function pointsToPath(
+    points: Point[],
+    size: number,
+    preset: BrushPreset = defaultBrushPreset,
+): [number, number][] {
     if (points.length === 0) return []
     if (points.length === 1) {
         return getStroke(points, {
@@ -53,120 +141,156 @@ export function pointsToPath(points: Point[], size: number): [number, number][]
     }
     return getStroke(points, {
         size,
-        thinning: 0.25,
-        streamline: 0.5,
-        smoothing: 0.5,
+        thinning: preset.thinning,
+        streamline: preset.streamline,
+        smoothing: preset.smoothing,
+        simulatePressure: points.every((point) => point.pressure === undefined),
+        start: { taper: preset.taperStart * size },
+        end: { taper: preset.taperEnd * size },
     }) satisfies number[][] as [number, number][]
 }
 
-export function renderPath(ctx: CanvasRenderingContext2D, points: [number, number][]) {
+// Mice can't sense pressure, and other pointers that can't report either 0 or 0.5 while pressed.
+export function getPointerPressure(event: { pointerType: string, pressure: number }): number | undefined {
+    if (event.pointerType === 'mouse' || event.pressure === 0 || event.pressure === 0.5) return undefined
+    return event.pressure
+}
+
+// Paths are traced once and reused, since a stroke gets drawn again for every tile it's on.
+const pathCache = new WeakMap<[number, number][], Path2D>()
+
+export function renderPath(ctx: RenderContext, points: [number, number][]) {
     if (points.length < 2) return
 
-    ctx.beginPath()
-    const p0 = points[0]!
-    ctx.moveTo(p0[0], p0[1])
-    
-    for (let i = 0; i < points.length - 1; i++) {
-        const [x0, y0] = points[i]!
-        const [x1, y1] = points[i+1]!
-        const midX = (x0 + x1) / 2
-        const midY = (y0 + y1) / 2
-        ctx.quadraticCurveTo(x0, y0, midX, midY)
+    let path = pathCache.get(points)
+    if (!path) {
+        path = new Path2D()
+        const p0 = points[0]!
+        path.moveTo(p0[0], p0[1])
+
+        for (let i = 0; i < points.length - 1; i++) {
+            const [x0, y0] = points[i]!
+            const [x1, y1] = points[i+1]!
+            const midX = (x0 + x1) / 2
+            const midY = (y0 + y1) / 2
+            path.quadraticCurveTo(x0, y0, midX, midY)
+        }
+
+        path.closePath()
+        pathCache.set(points, path)
     }
-    
-    ctx.closePath()
-    ctx.fill()
+    ctx.fill(path)
 }
 
-export async function createSnapshot(
-    actions: Action[],
-    id: string,
-    imageCache?: Map<string, HTMLImageElement>,
-    scale: number = 2
-): Promise<SnapshotAction> {
-    const bounds = getHistoryBounds(actions)
-    const width = Math.ceil(bounds.maxX - bounds.minX)
-    const height = Math.ceil(bounds.maxY - bounds.minY)
-    
-    // Handle empty case
-    if (width <= 0 || height <= 0) {
-        return {
-            id,
-            kind: 'snapshot',
-            dataUrl: '',
-            x: 0,
-            y: 0,
-            width: 0,
-            height: 0
-        }
+export type ImageCacheAction = SnapshotAction | ImageAction | StickerAction
+
+export function usesImage(action: Action): action is ImageCacheAction {
+    return action.kind === 'snapshot' || action.kind === 'image' || action.kind === 'sticker'
+}
+
+// The image cache has snapshots under their action's id, pasted images under their image's id
+// and stickers under their sticker's id.
+export function getImageCacheKey(action: ImageCacheAction): string {
+    if (action.kind === 'snapshot') return action.id
+    if (action.kind === 'image') return action.image
+    return `sticker:${action.sticker}`
+}
+
+export function getImageSource(action: ImageCacheAction): string | null {
+    if (action.kind === 'snapshot') return action.dataUrl
+    if (action.kind === 'image') return getImageDataUrl(action.image)
+    return stickerUrl(action.sticker)
+}
+
+// Loads whatever images aren't in the cache yet as bitmaps, which works off the main thread too.
+// Ones that fail to load are skipped.
+export async function loadImages(actions: Action[], imageCache: ImageCache) {
+    const loading = new Map<string, string>()
+    for (const action of actions) {
+        if (!usesImage(action)) continue
+        const key = getImageCacheKey(action)
+        const src = getImageSource(action)
+        if (src && !imageCache.has(key)) loading.set(key, src)
     }
 
-    const canvas = document.createElement('canvas')
-    canvas.width = width * scale
-    canvas.height = height * scale
-    const ctx = canvas.getContext('2d')!
-    
-    ctx.scale(scale, scale)
-    ctx.translate(-bounds.minX, -bounds.minY)
-    
-    // Load images if needed
-    const tempCache = new Map(imageCache) // Copy existing cache
-    await Promise.all(actions.map(action => {
-        if (action.kind === 'snapshot' && !tempCache.has(action.id)) {
-            return new Promise<void>((resolve) => {
-                const img = new Image()
-                img.onload = () => {
-                    tempCache.set(action.id, img)
-                    resolve()
-                }
-                img.onerror = () => resolve() // Skip failed
-                img.src = action.dataUrl
-            })
-        }
+    await Promise.all([...loading].map(async ([key, src]) => {
+        try {
+            const response = await fetch(src)
+            if (!response.ok) return
+            imageCache.set(key, await createImageBitmap(await response.blob()))
+        } catch {}
     }))
+}
 
-    renderActions(ctx, actions, tempCache)
-    
-    return {
-        id,
-        kind: 'snapshot',
-        dataUrl: canvas.toDataURL(),
-        x: bounds.minX,
-        y: bounds.minY,
-        width,
-        height
+// Bitmaps hold on to their memory until they're closed.
+export function closeImages(imageCache: ImageCache) {
+    for (const image of imageCache.values()) {
+        if ('close' in image) image.close()
     }
 }
 
+// Whether an image has finished loading, since elements go in the cache straight away.
+function isImageReady(image: CachedImage): boolean {
+    return !('complete' in image) || (image.complete && image.naturalWidth > 0)
+}
+
 export function renderAction(
-    ctx: CanvasRenderingContext2D,
+    ctx: RenderContext,
     action: Action,
-    imageCache?: Map<string, HTMLImageElement>,
+    imageCache?: ImageCache,
 ) {
-    if (action.kind === 'snapshot') {
+    if (action.kind === 'snapshot' || action.kind === 'image') {
         ctx.globalCompositeOperation = 'source-over'
-        const img = imageCache?.get(action.id)
-        if (img && img.complete && img.naturalWidth > 0) {
+        const img = imageCache?.get(getImageCacheKey(action))
+        if (img && isImageReady(img)) {
             ctx.drawImage(img, action.x, action.y, action.width, action.height)
         }
-    } else if (action.kind === 'kitty') {
+    } else if (action.kind === 'sticker') {
         ctx.globalCompositeOperation = 'source-over'
-        ctx.drawImage(kitty, action.x - kittySize / 2, action.y - kittySize / 2, kittySize, kittySize)
-    } else {
+        const img = imageCache?.get(getImageCacheKey(action))
+        if (img && isImageReady(img)) renderSticker(ctx, action, img)
+    } else if (action.kind === 'shape') {
+        ctx.globalAlpha = action.opacity ?? 1
+        ctx.globalCompositeOperation = 'source-over'
+        renderShape(ctx, action, action.color ?? defaultColor)
+        ctx.globalAlpha = 1
+    } else if (action.kind === 'text') {
+        ctx.globalAlpha = action.opacity ?? 1
+        ctx.globalCompositeOperation = 'source-over'
+        renderText(ctx, action, action.color ?? defaultColor)
+        ctx.globalAlpha = 1
+    } else if (action.kind === 'eraser') {
         ctx.fillStyle = 'black'
-        ctx.globalCompositeOperation = action.kind === 'eraser' ? 'destination-out' : 'source-over'
+        ctx.globalCompositeOperation = 'destination-out'
+        renderPath(ctx, action.path)
+    } else {
+        ctx.fillStyle = action.color ?? defaultColor
+        ctx.globalAlpha = action.opacity ?? 1
+        ctx.globalCompositeOperation = 'source-over'
         renderPath(ctx, action.path)
+        ctx.globalAlpha = 1
     }
 }
 
 export function renderActions(
-    ctx: CanvasRenderingContext2D,
+    ctx: RenderContext,
     history: Action[],
-    imageCache?: Map<string, HTMLImageElement>
+    imageCache?: ImageCache
 ) {
     for (const action of history) renderAction(ctx, action, imageCache)
 }
 
+// Stacks a layer's canvas, which has to be the same size, on top of what's drawn so far. Every layer
+// is drawn on a canvas of its own and stacked with this, so erasers only cut through their own layer.
+export function compositeLayer(ctx: RenderContext, layerCanvas: HTMLCanvasElement | OffscreenCanvas, opacity: number) {
+    ctx.save()
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.globalAlpha = opacity
+    ctx.globalCompositeOperation = 'source-over'
+    ctx.drawImage(layerCanvas, 0, 0)
+    ctx.restore()
+}
+
 export function pathToSvgD(points: [number, number][]): string {
     if (points.length === 0) return ''
 
@@ -195,7 +319,7 @@ export function getBounds(points: [number, number][]) {
 }
 
 export function getActionBounds(action: Action) {
-    if (action.kind === 'snapshot') {
+    if (action.kind === 'snapshot' || action.kind === 'image') {
         return {
             minX: action.x,
             minY: action.y,
@@ -203,14 +327,9 @@ export function getActionBounds(action: Action) {
             maxY: action.y + action.height
         }
     }
-    if (action.kind === 'kitty') {
-        return {
-            minX: action.x - kittySize / 2,
-            minY: action.y - kittySize / 2,
-            maxX: action.x + kittySize / 2,
-            maxY: action.y + kittySize / 2
-        }
-    }
+    if (action.kind === 'sticker') return getStickerBounds(action)
+    if (action.kind === 'shape') return getShapeBounds(action)
+    if (action.kind === 'text') return getTextBounds(action)
     return getBounds(action.path)
 }
 
@@ -237,123 +356,186 @@ export function getHistoryBounds(history: Action[]) {
     return { minX, minY, maxX, maxY }
 }
 
-export async function exportAsPng(history: Action[]): Promise<Blob> {
+export async function exportAsSvg(history: Action[], layers: Layer[]): Promise<Blob> {
+    history = getVisibleActions(history, layers)
     const { minX, minY, maxX, maxY } = getHistoryBounds(history)
-    
+
     const padding = 20
+    const x = minX - padding
+    const y = minY - padding
     const width = Math.ceil(maxX - minX + padding * 2)
     const height = Math.ceil(maxY - minY + padding * 2)
-    
-    const canvas = document.createElement('canvas')
-    canvas.width = width
-    canvas.height = height
-    const ctx = canvas.getContext('2d')!
-    
-    // Translate to center the content with padding
-    ctx.translate(-minX + padding, -minY + padding)
-    
-    // Ensure all snapshot images are loaded for export
-    const imageCache = new Map<string, HTMLImageElement>()
-    await Promise.all(history.map((action) => {
-        if (action.kind === 'snapshot') {
-            return new Promise<void>((resolve) => {
-                const img = new Image()
-                img.onload = () => {
-                    imageCache.set(action.id, img)
-                    resolve()
-                }
-                img.onerror = () => resolve() // Skip failed
-                img.src = action.dataUrl
-            })
+
+    const defs: string[] = []
+    const stickers = new Set(history.flatMap((action) => action.kind === 'sticker' ? [action.sticker] : []))
+    for (const sticker of stickers) {
+        const response = await fetch(stickerUrl(sticker))
+        // A sticker that's been taken off the server is left out, same as on the canvas
+        if (response.status === 404) continue
+        if (!response.ok) throw new Error(`Couldn't load sticker ${sticker}: ${response.status}`)
+        defs.push(stickerDefToSvg(sticker, await blobToDataUrl(await response.blob())))
+    }
+
+    let maskCount = 0
+
+    // Erasers only affect what was drawn before them on the same layer, so each run of erasers
+    // masks everything so far and later actions go on top, unmasked.
+    function layerToSvg(actions: Action[]): string[] {
+        let content: string[] = []
+        let erasers: string[] = []
+
+        const flushErasers = () => {
+            if (erasers.length === 0) return
+            const id = `eraser-${maskCount++}`
+            defs.push(
+                `<mask id='${id}' maskUnits='userSpaceOnUse' x='${x}' y='${y}' width='${width}' height='${height}'>`
+                + `<rect x='${x}' y='${y}' width='${width}' height='${height}' fill='white'/>`
+                + erasers.join('')
+                + '</mask>'
+            )
+            content = [`<g mask='url(#${id})'>${content.join('')}</g>`]
+            erasers = []
         }
-    }))
 
-    renderActions(ctx, history, imageCache)
-    
-    const imageData = ctx.getImageData(0, 0, width, height)
-    const data = imageData.data
-    
-    // Crop transparent pixels
-    let cMinX = width
-    let cMinY = height
-    let cMaxX = 0
-    let cMaxY = 0
-    let found = false
-
-    for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-            const alpha = data[(y * width + x) * 4 + 3]!
-            if (alpha > 0) {
-                if (x < cMinX) cMinX = x
-                if (x > cMaxX) cMaxX = x
-                if (y < cMinY) cMinY = y
-                if (y > cMaxY) cMaxY = y
-                found = true
+        for (const action of actions) {
+            if (action.kind === 'eraser') {
+                if (action.path.length >= 2) erasers.push(`<path d='${pathToSvgD(action.path)}' fill='black'/>`)
+                continue
+            }
+
+            flushErasers()
+            if (action.kind === 'pen') {
+                if (action.path.length >= 2) {
+                    const opacity = action.opacity !== undefined && action.opacity < 1 ? ` fill-opacity='${action.opacity}'` : ''
+                    content.push(`<path d='${pathToSvgD(action.path)}' fill='${action.color ?? defaultColor}'${opacity}/>`)
+                }
+            } else if (action.kind === 'shape') {
+                content.push(shapeToSvg(action, action.color ?? defaultColor, action.opacity ?? 1))
+            } else if (action.kind === 'text') {
+                content.push(textToSvg(action, action.color ?? defaultColor, action.opacity ?? 1))
+            } else if (action.kind === 'sticker') {
+                content.push(stickerToSvg(action))
+            } else if (action.kind === 'snapshot' || action.kind === 'image') {
+                const href = action.kind === 'snapshot' ? action.dataUrl : getImageDataUrl(action.image)
+                if (!href) continue
+                content.push(
+                    `<image href='${href}' x='${action.x}' y='${action.y}' `
+                    + `width='${action.width}' height='${action.height}' preserveAspectRatio='none'/>`
+                )
             }
         }
+        flushErasers()
+        return content
     }
 
-    const cropWidth = found ? cMaxX - cMinX + 1 : 0
-    const cropHeight = found ? cMaxY - cMinY + 1 : 0
-
-    const MAX_DIMENSION = 2000
-    const scale = Math.min(4, MAX_DIMENSION / cropWidth, MAX_DIMENSION / cropHeight)
-    const finalWidth = Math.floor(cropWidth * scale)
-    const finalHeight = Math.floor(cropHeight * scale)
-
-    const outputCanvas = document.createElement('canvas')
-    outputCanvas.width = finalWidth + padding * 2
-    outputCanvas.height = finalHeight + padding * 2
-    const outCtx = outputCanvas.getContext('2d')!
-
-    outCtx.fillStyle = '#ffffff'
-    outCtx.fillRect(0, 0, outputCanvas.width, outputCanvas.height)
-
-    if (found) {
-        outCtx.save()
-        outCtx.translate(padding, padding)
-        outCtx.scale(scale, scale)
-        outCtx.translate(-(cMinX + minX - padding), -(cMinY + minY - padding))
-        renderActions(outCtx, history, imageCache)
-        outCtx.restore()
+    const groups = groupByLayer(history, layers)
+    const content: string[] = []
+    for (const layer of layers) {
+        const actions = groups.get(layer.id)!
+        if (actions.length === 0) continue
+        const opacity = layer.opacity < 1 ? ` opacity='${layer.opacity}'` : ''
+        content.push(`<g${opacity}>${layerToSvg(actions).join('')}</g>`)
     }
-    
-    return new Promise<Blob>((resolve, reject) => {
-        outputCanvas.toBlob((canvasBlob) => {
-            if (canvasBlob) {
-                resolve(canvasBlob)
-            } else {
-                reject(new Error('Canvas to Blob failed'))
-            }
-        })
+
+    const svg = [
+        `<svg xmlns='http://www.w3.org/2000/svg' width='${width}' height='${height}' viewBox='${x} ${y} ${width} ${height}'>`,
+        `<defs>${defs.join('')}</defs>`,
+        ...content,
+        '</svg>',
+    ].join('\n')
+
+    return new Blob([svg], { type: 'image/svg+xml' })
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(blob)
     })
 }
 
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    // Give the browser a moment to start the download before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
 export interface CanvasPosition {
     zoom: number
     x: number
     y: number
 }
 
-export type Brush = 'pen' | 'eraser' | 'kitty'
+export type Brush = 'select' | 'pen' | 'eraser' | 'sticker' | 'text' | ShapeKind
 
+// For the stored brush, which can also be the kitty from before it became the sticker brush.
+export function parseBrush(stored: unknown): Brush | null {
+    if (stored === 'kitty') return 'sticker'
+    if (typeof stored !== 'string') return null
+    if (stored === 'select' || stored === 'pen' || stored === 'eraser' || stored === 'sticker' || stored === 'text') return stored
+    return isShapeKind(stored) ? stored : null
+}
+
+// Passing a null key keeps the state in memory only.
+// `parse` checks what was stored, and can upgrade old values. Anything it returns null for is left
+// at the default.
 export function useLocalState<Type>(
-    key: string,
-    defaultValue: Type
+    key: string | null,
+    defaultValue: Type,
+    parse?: (stored: unknown) => Type | null,
 ): [Type, Dispatch<SetStateAction<Type>>] {
     const [state, setState] = useState<Type>(() => {
-        const stored = localStorage.getItem(key)
-        if (stored !== null) return JSON.parse(stored)
-        return defaultValue
+        const stored = key === null ? null : localStorage.getItem(key)
+        if (stored === null) return defaultValue
+        try {
+            const value: unknown = JSON.parse(stored)
+            return parse ? parse(value) ?? defaultValue : value as Type
+        } catch (error) {
+            console.error(`Ignoring corrupt localStorage value under ${key}`, error)
+            return defaultValue
+        }
     })
 
     useEffect(() => {
-        localStorage.setItem(key, JSON.stringify(state))
+        if (key === null) return
+        try {
+            localStorage.setItem(key, JSON.stringify(state))
+        } catch (error) {
+            // Most likely out of quota. These are all small preferences, so it's not worth more.
+            console.error(`Failed to save ${key} to localStorage`, error)
+        }
     }, [state])
 
     return [state, setState]
 }
 
+// Closes a popover when clicking outside of it or pressing escape.
+export function useDismiss(ref: RefObject<HTMLElement | null>, isOpen: boolean, onDismiss: () => void) {
+    useEffect(() => {
+        if (!isOpen) return
+
+        function onPointerDown(event: PointerEvent) {
+            if (!ref.current?.contains(event.target as Node)) onDismiss()
+        }
+        function onKeyDown(event: KeyboardEvent) {
+            if (event.key === 'Escape') onDismiss()
+        }
+
+        window.addEventListener('pointerdown', onPointerDown)
+        window.addEventListener('keydown', onKeyDown)
+        return () => {
+            window.removeEventListener('pointerdown', onPointerDown)
+            window.removeEventListener('keydown', onKeyDown)
+        }
+    }, [isOpen])
+}
+
 export function useBlobjectUrl(blob: Blob): string | null {
     const [url, setUrl] = useState<string | null>(null)
     useEffect(() => {